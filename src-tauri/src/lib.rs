@@ -1,14 +1,149 @@
-// Learn more about Tauri commands at https://tauri.app/develop/calling-rust/
+mod models;
+mod store;
+
+use models::{Folder, Note, NoteMetadata, NoteSnapshot, PDFAnnotation, PDFDocument};
+use store::{StoreError, StoreResult, Vault};
+use tauri::ipc::{InvokeBody, Request, Response};
+use tauri::{Manager, State};
+
+#[tauri::command]
+fn list_notes(vault: State<'_, Vault>) -> StoreResult<Vec<NoteMetadata>> {
+    vault.list_notes()
+}
+
+#[tauri::command]
+fn create_note(vault: State<'_, Vault>, title: String, folder_id: Option<String>) -> StoreResult<Note> {
+    vault.create_note(&title, folder_id)
+}
+
+#[tauri::command]
+fn load_note(vault: State<'_, Vault>, note_id: String) -> StoreResult<Note> {
+    vault.load_note(&note_id)
+}
+
+#[tauri::command]
+fn save_note(vault: State<'_, Vault>, note: Note) -> StoreResult<()> {
+    vault.save_note(&note)
+}
+
+#[tauri::command]
+fn delete_note(vault: State<'_, Vault>, note_id: String) -> StoreResult<()> {
+    vault.delete_note(&note_id)
+}
+
+#[tauri::command]
+fn list_snapshots(vault: State<'_, Vault>, note_id: String) -> StoreResult<Vec<NoteSnapshot>> {
+    vault.list_snapshots(&note_id)
+}
+
+#[tauri::command]
+fn save_snapshot(vault: State<'_, Vault>, snapshot: NoteSnapshot) -> StoreResult<()> {
+    vault.save_snapshot(&snapshot)
+}
+
+#[tauri::command]
+fn delete_snapshot(vault: State<'_, Vault>, note_id: String, snapshot_id: String) -> StoreResult<()> {
+    vault.delete_snapshot(&note_id, &snapshot_id)
+}
+
+#[tauri::command]
+fn list_folders(vault: State<'_, Vault>) -> StoreResult<Vec<Folder>> {
+    vault.list_folders()
+}
+
+#[tauri::command]
+fn create_folder(vault: State<'_, Vault>, name: String, parent_id: Option<String>) -> StoreResult<Folder> {
+    vault.create_folder(&name, parent_id)
+}
+
+#[tauri::command]
+fn save_folder(vault: State<'_, Vault>, folder: Folder) -> StoreResult<()> {
+    vault.save_folder(folder)
+}
+
+#[tauri::command]
+fn delete_folder(vault: State<'_, Vault>, folder_id: String) -> StoreResult<()> {
+    vault.delete_folder(&folder_id)
+}
+
+#[tauri::command]
+fn save_pdf(vault: State<'_, Vault>, pdf: PDFDocument) -> StoreResult<()> {
+    vault.save_pdf(&pdf)
+}
+
+#[tauri::command]
+fn load_pdf(vault: State<'_, Vault>, pdf_id: String) -> StoreResult<PDFDocument> {
+    vault.load_pdf(&pdf_id)
+}
+
+#[tauri::command]
+fn list_pdfs(vault: State<'_, Vault>) -> StoreResult<Vec<PDFDocument>> {
+    vault.list_pdfs()
+}
+
+#[tauri::command]
+fn delete_pdf(vault: State<'_, Vault>, pdf_id: String) -> StoreResult<()> {
+    vault.delete_pdf(&pdf_id)
+}
+
+#[tauri::command]
+fn save_pdf_annotation(vault: State<'_, Vault>, pdf_id: String, annotation: PDFAnnotation) -> StoreResult<()> {
+    vault.save_pdf_annotation(&pdf_id, annotation)
+}
+
+/// Takes the file as the raw request body so large images skip JSON
+/// encoding; the extension to keep comes in the `x-file-extension` header.
+#[tauri::command]
+fn save_attachment(vault: State<'_, Vault>, request: Request<'_>) -> StoreResult<String> {
+    let InvokeBody::Raw(bytes) = request.body() else {
+        return Err(StoreError::WriteFailed("attachment body must be raw bytes".to_string()));
+    };
+    let extension = request
+        .headers()
+        .get("x-file-extension")
+        .and_then(|value| value.to_str().ok())
+        .unwrap_or_default();
+    vault.save_attachment(extension, bytes)
+}
+
 #[tauri::command]
-fn greet(name: &str) -> String {
-    format!("Hello, {}! You've been greeted from Rust!", name)
+fn load_attachment(vault: State<'_, Vault>, path: String) -> StoreResult<Response> {
+    vault.load_attachment(&path).map(Response::new)
 }
 
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
     tauri::Builder::default()
         .plugin(tauri_plugin_opener::init())
-        .invoke_handler(tauri::generate_handler![greet])
+        .setup(|app| {
+            // The vault lives under the per-app data directory, e.g.
+            // ~/.local/share/com.k3ntaw.flow-notes on Linux
+            let vault = Vault::open(app.path().app_data_dir()?)
+                .map_err(|e| format!("Failed to open note vault: {:?}", e))?;
+            app.manage(vault);
+            Ok(())
+        })
+        .invoke_handler(tauri::generate_handler![
+            list_notes,
+            create_note,
+            load_note,
+            save_note,
+            delete_note,
+            list_snapshots,
+            save_snapshot,
+            delete_snapshot,
+            list_folders,
+            create_folder,
+            save_folder,
+            delete_folder,
+            save_pdf,
+            load_pdf,
+            list_pdfs,
+            delete_pdf,
+            save_pdf_annotation,
+            save_attachment,
+            load_attachment
+        ])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
 }
@@ -0,0 +1,409 @@
+use crate::models::{Block, Folder, Note, NoteMetadata, NoteSnapshot, PDFAnnotation, PDFDocument};
+use serde::de::DeserializeOwned;
+use serde::Serialize;
+use std::collections::HashMap;
+use std::fs;
+use std::io::Write;
+use std::path::{Path, PathBuf};
+use std::sync::{Mutex, MutexGuard};
+
+const INDEX_FILE: &str = "index.json";
+const FOLDERS_FILE: &str = "folders.json";
+const ATTACHMENTS_DIR: &str = "attachments";
+
+/// Errors returned to the frontend as `{ kind, message }` so the TypeScript
+/// side can tell a missing note from a failed write.
+#[derive(Debug, Serialize)]
+#[serde(tag = "kind", content = "message", rename_all = "camelCase")]
+pub enum StoreError {
+    NotFound(String),
+    ReadFailed(String),
+    WriteFailed(String),
+}
+
+pub type StoreResult<T> = Result<T, StoreError>;
+
+pub fn now() -> String {
+    chrono::Utc::now().to_rfc3339_opts(chrono::SecondsFormat::Millis, true)
+}
+
+pub fn new_id(prefix: &str) -> String {
+    format!("{}_{}", prefix, uuid::Uuid::new_v4())
+}
+
+/// Writes to a sibling temp file and renames it over the target, so a crash
+/// mid-write never leaves a truncated JSON file behind.
+fn write_atomic(path: &Path, bytes: &[u8]) -> StoreResult<()> {
+    let write_failed = |e: std::io::Error| StoreError::WriteFailed(format!("{}: {}", path.display(), e));
+    let file_name = path
+        .file_name()
+        .and_then(|name| name.to_str())
+        .ok_or_else(|| StoreError::WriteFailed(format!("{}: invalid file name", path.display())))?;
+    let tmp_path = path.with_file_name(format!(".{}.tmp", file_name));
+
+    let mut file = fs::File::create(&tmp_path).map_err(write_failed)?;
+    file.write_all(bytes).map_err(write_failed)?;
+    file.sync_all().map_err(write_failed)?;
+    drop(file);
+
+    fs::rename(&tmp_path, path).map_err(|e| {
+        let _ = fs::remove_file(&tmp_path);
+        write_failed(e)
+    })
+}
+
+fn write_json<T: Serialize>(path: &Path, value: &T) -> StoreResult<()> {
+    let json = serde_json::to_vec_pretty(value)
+        .map_err(|e| StoreError::WriteFailed(format!("{}: {}", path.display(), e)))?;
+    write_atomic(path, &json)
+}
+
+fn read_json<T: DeserializeOwned>(path: &Path) -> StoreResult<T> {
+    let content = fs::read_to_string(path).map_err(|e| match e.kind() {
+        std::io::ErrorKind::NotFound => StoreError::NotFound(path.display().to_string()),
+        _ => StoreError::ReadFailed(format!("{}: {}", path.display(), e)),
+    })?;
+    serde_json::from_str(&content)
+        .map_err(|e| StoreError::ReadFailed(format!("{}: {}", path.display(), e)))
+}
+
+fn json_files(dir: &Path) -> StoreResult<Vec<PathBuf>> {
+    let entries = fs::read_dir(dir)
+        .map_err(|e| StoreError::ReadFailed(format!("{}: {}", dir.display(), e)))?;
+    Ok(entries
+        .filter_map(|entry| entry.ok().map(|entry| entry.path()))
+        .filter(|path| path.extension().and_then(|s| s.to_str()) == Some("json"))
+        .collect())
+}
+
+/// Ids become file names, so anything that could escape the vault is treated
+/// as an unknown id.
+fn checked_id(id: &str) -> StoreResult<&str> {
+    if id.is_empty() || id.contains(['/', '\\']) || id.starts_with('.') {
+        return Err(StoreError::NotFound(id.to_string()));
+    }
+    Ok(id)
+}
+
+/// On-disk vault: one JSON file per note under `notes/`, a metadata index
+/// beside it for fast listing, snapshots under `history/<note id>/`, all
+/// folders in `folders.json`, one JSON file per PDF under `pdfs/`, and
+/// pasted or dropped files under `attachments/`.
+pub struct Vault {
+    root: PathBuf,
+    index: Mutex<HashMap<String, NoteMetadata>>,
+    // Serializes read-modify-write cycles on folders.json
+    folders: Mutex<()>,
+}
+
+impl Vault {
+    pub fn open(root: PathBuf) -> StoreResult<Self> {
+        for dir in ["notes", "history", "pdfs", ATTACHMENTS_DIR] {
+            fs::create_dir_all(root.join(dir))
+                .map_err(|e| StoreError::WriteFailed(format!("{}: {}", root.display(), e)))?;
+        }
+
+        let vault = Vault {
+            root,
+            index: Mutex::new(HashMap::new()),
+            folders: Mutex::new(()),
+        };
+
+        // Rebuild the index when it is missing, unreadable or out of step with
+        // the note files (e.g. after notes were copied in by hand).
+        let note_count = json_files(&vault.notes_dir())?.len();
+        let index = match read_json::<Vec<NoteMetadata>>(&vault.root.join(INDEX_FILE)) {
+            Ok(entries) if entries.len() == note_count => {
+                entries.into_iter().map(|meta| (meta.id.clone(), meta)).collect()
+            }
+            _ => {
+                let rebuilt = vault.scan_notes()?;
+                vault.persist_index(&rebuilt)?;
+                rebuilt
+            }
+        };
+        *vault.lock_index() = index;
+
+        Ok(vault)
+    }
+
+    fn notes_dir(&self) -> PathBuf {
+        self.root.join("notes")
+    }
+
+    fn pdfs_dir(&self) -> PathBuf {
+        self.root.join("pdfs")
+    }
+
+    fn note_path(&self, note_id: &str) -> StoreResult<PathBuf> {
+        Ok(self.notes_dir().join(format!("{}.json", checked_id(note_id)?)))
+    }
+
+    fn history_dir(&self, note_id: &str) -> StoreResult<PathBuf> {
+        Ok(self.root.join("history").join(checked_id(note_id)?))
+    }
+
+    fn pdf_path(&self, pdf_id: &str) -> StoreResult<PathBuf> {
+        Ok(self.pdfs_dir().join(format!("{}.json", checked_id(pdf_id)?)))
+    }
+
+    fn attachments_dir(&self) -> PathBuf {
+        self.root.join(ATTACHMENTS_DIR)
+    }
+
+    fn lock_index(&self) -> MutexGuard<'_, HashMap<String, NoteMetadata>> {
+        self.index.lock().unwrap_or_else(|poisoned| poisoned.into_inner())
+    }
+
+    fn scan_notes(&self) -> StoreResult<HashMap<String, NoteMetadata>> {
+        let mut index = HashMap::new();
+        for path in json_files(&self.notes_dir())? {
+            // Skip files that do not parse instead of failing the whole vault
+            if let Ok(note) = read_json::<Note>(&path) {
+                index.insert(note.id.clone(), NoteMetadata::from(&note));
+            }
+        }
+        Ok(index)
+    }
+
+    fn persist_index(&self, index: &HashMap<String, NoteMetadata>) -> StoreResult<()> {
+        let entries: Vec<&NoteMetadata> = index.values().collect();
+        write_json(&self.root.join(INDEX_FILE), &entries)
+    }
+
+    pub fn list_notes(&self) -> StoreResult<Vec<NoteMetadata>> {
+        let mut notes: Vec<NoteMetadata> = self.lock_index().values().cloned().collect();
+        // Sort by updated_at descending
+        notes.sort_by(|a, b| b.updated_at.cmp(&a.updated_at));
+        Ok(notes)
+    }
+
+    pub fn load_note(&self, note_id: &str) -> StoreResult<Note> {
+        read_json(&self.note_path(note_id)?).map_err(|e| match e {
+            StoreError::NotFound(_) => StoreError::NotFound(format!("Note not found: {}", note_id)),
+            other => other,
+        })
+    }
+
+    pub fn save_note(&self, note: &Note) -> StoreResult<()> {
+        let path = self.note_path(&note.id)?;
+        let mut index = self.lock_index();
+        write_json(&path, note)?;
+        index.insert(note.id.clone(), NoteMetadata::from(note));
+        self.persist_index(&index)
+    }
+
+    pub fn delete_note(&self, note_id: &str) -> StoreResult<()> {
+        let path = self.note_path(note_id)?;
+        let mut index = self.lock_index();
+        if path.exists() {
+            fs::remove_file(&path)
+                .map_err(|e| StoreError::WriteFailed(format!("{}: {}", path.display(), e)))?;
+        }
+        index.remove(note_id);
+        self.persist_index(&index)?;
+
+        // History goes with the note
+        let history_dir = self.history_dir(note_id)?;
+        if history_dir.exists() {
+            fs::remove_dir_all(&history_dir)
+                .map_err(|e| StoreError::WriteFailed(format!("{}: {}", history_dir.display(), e)))?;
+        }
+        Ok(())
+    }
+
+    pub fn create_note(&self, title: &str, folder_id: Option<String>) -> StoreResult<Note> {
+        // Check for duplicate titles and add a number if needed
+        let mut final_title = title.to_string();
+        {
+            let index = self.lock_index();
+            let mut counter = 1;
+            while index.values().any(|note| note.title == final_title) {
+                final_title = format!("{} {}", title, counter);
+                counter += 1;
+            }
+        }
+
+        let timestamp = now();
+        let note = Note {
+            id: new_id("note"),
+            title: final_title,
+            blocks: vec![Block {
+                id: uuid::Uuid::new_v4().to_string(),
+                r#type: "heading".to_string(),
+                content: "Untitled".to_string(),
+                checked: None,
+                file_path: None,
+                children: None,
+                order: 0,
+                extra: Default::default(),
+            }],
+            created_at: timestamp.clone(),
+            updated_at: timestamp,
+            tags: None,
+            folder_id,
+            trashed_at: None,
+            archived: None,
+            favorite: None,
+            favorite_order: None,
+            extra: Default::default(),
+        };
+
+        self.save_note(&note)?;
+        Ok(note)
+    }
+
+    pub fn list_snapshots(&self, note_id: &str) -> StoreResult<Vec<NoteSnapshot>> {
+        let dir = self.history_dir(note_id)?;
+        if !dir.exists() {
+            return Ok(Vec::new());
+        }
+        let mut snapshots: Vec<NoteSnapshot> = json_files(&dir)?
+            .iter()
+            .filter_map(|path| read_json(path).ok())
+            .collect();
+        // Newest first
+        snapshots.sort_by(|a, b| b.created_at.cmp(&a.created_at));
+        Ok(snapshots)
+    }
+
+    pub fn save_snapshot(&self, snapshot: &NoteSnapshot) -> StoreResult<()> {
+        let dir = self.history_dir(&snapshot.note_id)?;
+        fs::create_dir_all(&dir)
+            .map_err(|e| StoreError::WriteFailed(format!("{}: {}", dir.display(), e)))?;
+        write_json(&dir.join(format!("{}.json", checked_id(&snapshot.id)?)), snapshot)
+    }
+
+    pub fn delete_snapshot(&self, note_id: &str, snapshot_id: &str) -> StoreResult<()> {
+        let path = self.history_dir(note_id)?.join(format!("{}.json", checked_id(snapshot_id)?));
+        if path.exists() {
+            fs::remove_file(&path)
+                .map_err(|e| StoreError::WriteFailed(format!("{}: {}", path.display(), e)))?;
+        }
+        Ok(())
+    }
+
+    fn read_folders(&self) -> StoreResult<Vec<Folder>> {
+        match read_json(&self.root.join(FOLDERS_FILE)) {
+            Err(StoreError::NotFound(_)) => Ok(Vec::new()),
+            other => other,
+        }
+    }
+
+    fn write_folders(&self, folders: &[Folder]) -> StoreResult<()> {
+        write_json(&self.root.join(FOLDERS_FILE), &folders)
+    }
+
+    pub fn list_folders(&self) -> StoreResult<Vec<Folder>> {
+        let _guard = self.folders.lock().unwrap_or_else(|poisoned| poisoned.into_inner());
+        let mut folders = self.read_folders()?;
+        folders.sort_by(|a, b| a.name.cmp(&b.name));
+        Ok(folders)
+    }
+
+    pub fn create_folder(&self, name: &str, parent_id: Option<String>) -> StoreResult<Folder> {
+        let timestamp = now();
+        let folder = Folder {
+            id: new_id("folder"),
+            name: name.to_string(),
+            parent_id,
+            created_at: timestamp.clone(),
+            updated_at: timestamp,
+            favorite: None,
+            favorite_order: None,
+        };
+        self.save_folder(folder.clone())?;
+        Ok(folder)
+    }
+
+    pub fn save_folder(&self, folder: Folder) -> StoreResult<()> {
+        let _guard = self.folders.lock().unwrap_or_else(|poisoned| poisoned.into_inner());
+        let mut folders = self.read_folders()?;
+        match folders.iter().position(|f| f.id == folder.id) {
+            Some(existing_index) => folders[existing_index] = folder,
+            None => folders.push(folder),
+        }
+        self.write_folders(&folders)
+    }
+
+    pub fn delete_folder(&self, folder_id: &str) -> StoreResult<()> {
+        let _guard = self.folders.lock().unwrap_or_else(|poisoned| poisoned.into_inner());
+        let mut folders = self.read_folders()?;
+        folders.retain(|f| f.id != folder_id);
+        self.write_folders(&folders)
+    }
+
+    pub fn save_pdf(&self, pdf: &PDFDocument) -> StoreResult<()> {
+        write_json(&self.pdf_path(&pdf.id)?, pdf)
+    }
+
+    pub fn load_pdf(&self, pdf_id: &str) -> StoreResult<PDFDocument> {
+        read_json(&self.pdf_path(pdf_id)?).map_err(|e| match e {
+            StoreError::NotFound(_) => StoreError::NotFound(format!("PDF not found: {}", pdf_id)),
+            other => other,
+        })
+    }
+
+    pub fn list_pdfs(&self) -> StoreResult<Vec<PDFDocument>> {
+        let mut pdfs: Vec<PDFDocument> = json_files(&self.pdfs_dir())?
+            .iter()
+            .filter_map(|path| read_json(path).ok())
+            .collect();
+        // Sort by updated_at descending
+        pdfs.sort_by(|a, b| b.updated_at.cmp(&a.updated_at));
+        Ok(pdfs)
+    }
+
+    pub fn delete_pdf(&self, pdf_id: &str) -> StoreResult<()> {
+        let path = self.pdf_path(pdf_id)?;
+        if path.exists() {
+            fs::remove_file(&path)
+                .map_err(|e| StoreError::WriteFailed(format!("{}: {}", path.display(), e)))?;
+        }
+        Ok(())
+    }
+
+    pub fn save_pdf_annotation(&self, pdf_id: &str, annotation: PDFAnnotation) -> StoreResult<()> {
+        let mut pdf = self.load_pdf(pdf_id)?;
+        let annotations = pdf.annotations.get_or_insert_with(Vec::new);
+
+        // Update existing annotation or add new one
+        match annotations.iter().position(|a| a.id == annotation.id) {
+            Some(existing_index) => annotations[existing_index] = annotation,
+            None => annotations.push(annotation),
+        }
+
+        pdf.updated_at = now();
+        self.save_pdf(&pdf)
+    }
+
+    /// Stores a file under a fresh id, keeping its extension, and returns the
+    /// vault-relative path that blocks reference it by.
+    pub fn save_attachment(&self, extension: &str, bytes: &[u8]) -> StoreResult<String> {
+        let extension: String = extension
+            .chars()
+            .filter(|c| c.is_ascii_alphanumeric())
+            .collect::<String>()
+            .to_ascii_lowercase();
+        let file_name = if extension.is_empty() {
+            new_id("att")
+        } else {
+            format!("{}.{}", new_id("att"), extension)
+        };
+        write_atomic(&self.attachments_dir().join(&file_name), bytes)?;
+        Ok(format!("{}/{}", ATTACHMENTS_DIR, file_name))
+    }
+
+    pub fn load_attachment(&self, path: &str) -> StoreResult<Vec<u8>> {
+        let not_found = || StoreError::NotFound(format!("Attachment not found: {}", path));
+        let file_name = path
+            .strip_prefix(ATTACHMENTS_DIR)
+            .and_then(|rest| rest.strip_prefix('/'))
+            .ok_or_else(not_found)?;
+        let full_path = self.attachments_dir().join(checked_id(file_name)?);
+        fs::read(&full_path).map_err(|e| match e.kind() {
+            std::io::ErrorKind::NotFound => not_found(),
+            _ => StoreError::ReadFailed(format!("{}: {}", full_path.display(), e)),
+        })
+    }
+}
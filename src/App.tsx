@@ -1,30 +1,122 @@
-import { useState, useEffect } from 'react';
-import { invoke } from '@tauri-apps/api/core';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { History, Link2, ListTree, Star } from 'lucide-react';
 import { NotionSidebar } from './components/NotionSidebar';
 import { Editor } from './components/Editor';
 import { NoteBreadcrumb } from './components/NoteBreadcrumb';
-import { Note, NoteMetadata } from './types';
+import { HistoryPanel } from './components/HistoryPanel';
+import { BacklinksPanel } from './components/BacklinksPanel';
+import { Block, ExportFormat, Folder, Note, NoteMetadata, NoteSnapshot } from './types';
+import { NoteRepository, RepositoryError, isNotFound } from './lib/repository';
+import { FolderDeleteMode, deleteFolder, moveFolder, moveNote } from './lib/folders';
+import { createHistoryRecorder, restoreBlock } from './lib/history';
+import { FavoriteItem, reorderFavorites, setFavorite } from './lib/favorites';
+import { createAccessTracker } from './lib/recent';
+import { createAttachmentStore } from './lib/attachments';
+import { createPdfLibrary } from './lib/pdfs';
+import { exportNoteMarkdown } from './lib/markdown';
+import { exportNoteHTML } from './lib/html';
+import { TaskEntry, mergeLoadedTasks, replaceNoteTasks, setTaskChecked } from './lib/tasks';
+import { NoteLinkEntry, getBacklinks, mergeLoadedLinks, refreshLinkLabels, replaceNoteLinks } from './lib/links';
+import { SearchIndex, SearchResult } from './lib/search';
+import { deleteTag, getTagSummaries, renameTag, syncInlineTags } from './lib/tags';
+import {
+  createWriteQueue,
+  emptyTrash,
+  isActive,
+  isTrashed,
+  loadEveryNote,
+  restoreNote,
+  setArchived,
+  trashNote,
+} from './lib/notes';
+import 'katex/dist/katex.min.css';
 import './styles.css';
 
-function App() {
+interface AppProps {
+  repository: NoteRepository;
+  // Kept current by the repository; App only fills it at startup
+  searchIndex: SearchIndex;
+}
+
+function App({ repository, searchIndex }: AppProps) {
   const [notes, setNotes] = useState<NoteMetadata[]>([]);
+  const [folders, setFolders] = useState<Folder[]>([]);
   const [currentNote, setCurrentNote] = useState<Note | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [snapshots, setSnapshots] = useState<NoteSnapshot[]>([]);
+  // Bumped when a note's content is replaced from outside the editor
+  const [editorRevision, setEditorRevision] = useState(0);
+  // Block to scroll to once the open note is shown (e.g. a search hit)
+  const [revealBlock, setRevealBlock] = useState<{ blockId: string }>();
+  // Open todos across all notes, for the Tasks view
+  const [tasks, setTasks] = useState<TaskEntry[]>([]);
+  // `[[links]]` across all notes, for the Backlinks panel
+  const [links, setLinks] = useState<NoteLinkEntry[]>([]);
+  const [showBacklinks, setShowBacklinks] = useState(false);
+  const [showOutline, setShowOutline] = useState(false);
+  // Notes saved since startup, whose tasks and links the background load
+  // leaves alone
+  const savedNoteIds = useRef(new Set<string>());
+
+  // Every write to a note goes through here, so writes land in order
+  const writeNote = useMemo(() => createWriteQueue(), []);
+  const history = useMemo(() => createHistoryRecorder(repository, writeNote), [repository, writeNote]);
+  const attachments = useMemo(() => createAttachmentStore(repository), [repository]);
+  const pdfs = useMemo(() => createPdfLibrary(repository, attachments), [repository, attachments]);
+  const access = useMemo(() => createAccessTracker(), []);
+  const [recent, setRecent] = useState(() => access.getRecent());
 
   useEffect(() => {
     loadNotes();
   }, []);
 
+  // Fill the search index, task list and links once in the background,
+  // reading each note once; saves keep them current
+  useEffect(() => {
+    repository.listNotes()
+      .then(async notesList => {
+        const loaded = await loadEveryNote(repository, notesList);
+        loaded.forEach(note => searchIndex.update(note));
+        setTasks(prev => mergeLoadedTasks(prev, loaded, savedNoteIds.current));
+        setLinks(prev => mergeLoadedLinks(prev, loaded, savedNoteIds.current));
+      })
+      .catch(error => reportError('index notes', error));
+  }, [repository, searchIndex]);
+
+  // Swaps in a saved note's tasks and links
+  const refreshNoteEntries = (note: Note) => {
+    savedNoteIds.current.add(note.id);
+    setTasks(prev => replaceNoteTasks(prev, note));
+    setLinks(prev => replaceNoteLinks(prev, note));
+  };
+
+  // Repository failures are shown to the user instead of only being logged
+  const reportError = (action: string, error: unknown) => {
+    console.error(`Failed to ${action}:`, error);
+    const detail = error instanceof RepositoryError ? error.message : String(error);
+    setErrorMessage(`Failed to ${action}. ${detail}`);
+  };
+
   const loadNotes = async () => {
     setIsLoading(true);
     try {
-      const notesList = await invoke<NoteMetadata[]>('list_notes');
+      const [notesList, folderList] = await Promise.all([
+        repository.listNotes(),
+        repository.listFolders(),
+      ]);
       setNotes(notesList);
-      if (notesList.length > 0 && !currentNote) {
-        loadNote(notesList[0].id);
+      setFolders(folderList);
+      // Reopen whatever was open last time, if it is still around
+      const lastOpened = access.lastOpened();
+      const firstNote = notesList.find(note => note.id === lastOpened?.noteId && isActive(note))
+        ?? notesList.find(isActive);
+      if (firstNote && !currentNote) {
+        loadNote(firstNote.id);
       }
     } catch (error) {
-      console.error('Failed to load notes:', error);
+      reportError('load notes', error);
     } finally {
       setIsLoading(false);
     }
@@ -32,74 +124,156 @@ function App() {
 
   const createNewNote = async () => {
     try {
-      const newNote = await invoke<Note>('create_note', { title: 'Untitled' });
+      const newNote = await repository.createNote('Untitled');
       await loadNotes();
       setCurrentNote(newNote);
     } catch (error) {
-      console.error('Failed to create note:', error);
+      reportError('create note', error);
     }
   };
 
   const loadNote = async (noteId: string) => {
     try {
-      const note = await invoke<Note>('load_note', { noteId });
+      const note = await repository.loadNote(noteId);
       setCurrentNote(note);
     } catch (error) {
-      console.error('Failed to load note:', error);
+      if (isNotFound(error)) {
+        // The note vanished underneath us; drop it from the sidebar
+        setErrorMessage('That note no longer exists.');
+        try {
+          setNotes(await repository.listNotes());
+        } catch (listError) {
+          reportError('load notes', listError);
+        }
+      } else {
+        reportError('load note', error);
+      }
     }
   };
 
   const saveNote = async (note: Note) => {
     try {
-      await invoke('save_note', { note });
+      // Pick up #tags typed into (or removed from) the text
+      const taggedNote = syncInlineTags(note, currentNote?.id === note.id ? currentNote.blocks : []);
+      await writeNote(note.id, async () => {
+        // Keep a copy of the stored version before overwriting it
+        await history.beforeSave(note.id).catch(error => reportError('record note history', error));
+        await repository.saveNote(taggedNote);
+      });
+      access.recordEdit(note.id);
+      setRecent(access.getRecent());
+      refreshNoteEntries(taggedNote);
       // Update the current note in state without reloading
-      setCurrentNote(note);
+      setCurrentNote(taggedNote);
       // Only reload the notes list to update sidebar, don't reload current note
-      const notesList = await invoke<NoteMetadata[]>('list_notes');
+      const notesList = await repository.listNotes();
       setNotes(notesList);
     } catch (error) {
-      console.error('Failed to save note:', error);
+      reportError('save note', error);
+    }
+  };
+
+  // Trash and Archive. Notes are only removed for good from the Trash.
+  const applyNoteChange = (updatedNote: Note) => {
+    if (currentNote?.id === updatedNote.id) {
+      setCurrentNote(updatedNote);
     }
   };
 
-  const deleteNote = async (noteId: string) => {
+  const moveNoteToTrash = async (noteId: string) => {
     try {
-      await invoke('delete_note', { noteId });
+      const updatedNote = await trashNote(repository, writeNote, noteId);
       if (currentNote?.id === noteId) {
         setCurrentNote(null);
+      } else {
+        applyNoteChange(updatedNote);
       }
-      await loadNotes();
+      setNotes(await repository.listNotes());
     } catch (error) {
-      console.error('Failed to delete note:', error);
+      reportError('move note to Trash', error);
     }
   };
 
-  const exportNote = async (noteId: string) => {
+  const restoreNoteFromTrash = async (noteId: string) => {
     try {
-      const note = await invoke<Note>('load_note', { noteId });
-      const content = `# ${note.title}\n\n${note.blocks.map(block => block.content).join('\n\n')}`;
-      
+      applyNoteChange(await restoreNote(repository, writeNote, noteId));
+      setNotes(await repository.listNotes());
+    } catch (error) {
+      reportError('restore note', error);
+    }
+  };
+
+  const archiveNote = async (noteId: string, archived: boolean) => {
+    try {
+      applyNoteChange(await setArchived(repository, writeNote, noteId, archived));
+      setNotes(await repository.listNotes());
+    } catch (error) {
+      reportError(archived ? 'archive note' : 'unarchive note', error);
+    }
+  };
+
+  const deleteNoteForever = async (noteId: string) => {
+    if (!confirm('Delete this note permanently? This cannot be undone.')) {
+      return;
+    }
+    try {
+      await repository.deleteNote(noteId);
+      access.forget(noteId);
+      setRecent(access.getRecent());
+      if (currentNote?.id === noteId) {
+        setCurrentNote(null);
+      }
+      setNotes(await repository.listNotes());
+    } catch (error) {
+      reportError('delete note', error);
+    }
+  };
+
+  const emptyTrashNow = async () => {
+    const count = notes.filter(isTrashed).length;
+    if (!confirm(`Permanently delete ${count} note${count === 1 ? '' : 's'} in the Trash?`)) {
+      return;
+    }
+    try {
+      await emptyTrash(repository, notes);
+      notes.filter(isTrashed).forEach(note => access.forget(note.id));
+      setRecent(access.getRecent());
+      if (currentNote && isTrashed(currentNote)) {
+        setCurrentNote(null);
+      }
+      setNotes(await repository.listNotes());
+    } catch (error) {
+      reportError('empty Trash', error);
+    }
+  };
+
+  const exportNote = async (noteId: string, format: ExportFormat = 'markdown') => {
+    try {
+      const loaded = await repository.loadNote(noteId);
+      const note = { ...loaded, blocks: refreshLinkLabels(loaded.blocks, notes) };
+      const content = format === 'html'
+        ? await exportNoteHTML(note, attachments)
+        : await exportNoteMarkdown(note, attachments);
+
       // Create and download file
-      const blob = new Blob([content], { type: 'text/markdown' });
+      const blob = new Blob([content], { type: format === 'html' ? 'text/html' : 'text/markdown' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `${note.title || 'Untitled'}.md`;
+      a.download = `${note.title || 'Untitled'}.${format === 'html' ? 'html' : 'md'}`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
     } catch (error) {
-      console.error('Failed to export note:', error);
+      reportError('export note', error);
     }
   };
 
   const duplicateNote = async (noteId: string) => {
     try {
-      const note = await invoke<Note>('load_note', { noteId });
-      const duplicatedNote = await invoke<Note>('create_note', { 
-        title: `${note.title} (Copy)` 
-      });
+      const note = await repository.loadNote(noteId);
+      const duplicatedNote = await repository.createNote(`${note.title} (Copy)`, note.folderId);
       
       // Copy the content
       const updatedNote = {
@@ -107,14 +281,74 @@ function App() {
         blocks: note.blocks,
         updatedAt: new Date().toISOString(),
       };
-      await invoke('save_note', { note: updatedNote });
+      await writeNote(updatedNote.id, () => repository.saveNote(updatedNote));
+      refreshNoteEntries(updatedNote);
       await loadNotes();
       setCurrentNote(updatedNote);
     } catch (error) {
-      console.error('Failed to duplicate note:', error);
+      reportError('duplicate note', error);
+    }
+  };
+
+  // Version history
+  const openHistory = async () => {
+    if (!currentNote) {
+      return;
+    }
+    try {
+      setSnapshots(await repository.listSnapshots(currentNote.id));
+      setShowBacklinks(false);
+      setShowOutline(false);
+      setShowHistory(true);
+    } catch (error) {
+      reportError('load note history', error);
+    }
+  };
+
+  const replaceNoteContent = async (note: Note) => {
+    const updatedNote = await history.restore(note);
+    refreshNoteEntries(updatedNote);
+    setCurrentNote(updatedNote);
+    setEditorRevision(revision => revision + 1);
+    setNotes(await repository.listNotes());
+    setSnapshots(await repository.listSnapshots(note.id));
+  };
+
+  const restoreSnapshot = async (snapshot: NoteSnapshot) => {
+    if (!currentNote) {
+      return;
+    }
+    try {
+      await replaceNoteContent({ ...currentNote, title: snapshot.title, blocks: snapshot.blocks });
+    } catch (error) {
+      reportError('restore version', error);
+    }
+  };
+
+  const restoreSnapshotBlock = async (snapshot: NoteSnapshot, block: Block) => {
+    if (!currentNote) {
+      return;
+    }
+    try {
+      const blocks = restoreBlock(currentNote.blocks, snapshot.blocks, block);
+      await replaceNoteContent({ ...currentNote, blocks });
+    } catch (error) {
+      reportError('restore block', error);
     }
   };
 
+  useEffect(() => {
+    setShowHistory(false);
+  }, [currentNote?.id]);
+
+  // Every way of opening a note ends up here
+  useEffect(() => {
+    if (currentNote) {
+      access.recordOpen(currentNote.id);
+      setRecent(access.getRecent());
+    }
+  }, [currentNote?.id]);
+
   // Navigation functions for breadcrumb
   const handleBreadcrumbNavigation = (noteId: string) => {
     loadNote(noteId);
@@ -125,46 +359,181 @@ function App() {
   };
 
   // Folder management functions
+  const refreshFolderTree = async () => {
+    const [notesList, folderList] = await Promise.all([
+      repository.listNotes(),
+      repository.listFolders(),
+    ]);
+    setNotes(notesList);
+    setFolders(folderList);
+  };
+
   const handleFolderCreate = async (name: string, parentId?: string) => {
     try {
-      // In a real implementation, this would call a backend API
-      console.log('Creating folder:', name, 'in parent:', parentId);
-      // For now, just show a success message
-      alert(`Folder "${name}" created successfully!`);
+      await repository.createFolder(name, parentId);
+      await refreshFolderTree();
     } catch (error) {
-      console.error('Failed to create folder:', error);
+      reportError('create folder', error);
     }
   };
 
   const handleFolderRename = async (folderId: string, newName: string) => {
+    const folder = folders.find(f => f.id === folderId);
+    if (!folder) {
+      return;
+    }
     try {
-      // In a real implementation, this would call a backend API
-      console.log('Renaming folder:', folderId, 'to:', newName);
-      alert(`Folder renamed to "${newName}" successfully!`);
+      await repository.saveFolder({ ...folder, name: newName, updatedAt: new Date().toISOString() });
+      await refreshFolderTree();
     } catch (error) {
-      console.error('Failed to rename folder:', error);
+      reportError('rename folder', error);
     }
   };
 
-  const handleFolderDelete = async (folderId: string) => {
+  const handleFolderDelete = async (folderId: string, mode: FolderDeleteMode) => {
+    if (mode === 'withContents' && !confirm('Delete this folder and every note inside it?')) {
+      return;
+    }
     try {
-      // In a real implementation, this would call a backend API
-      console.log('Deleting folder:', folderId);
-      if (confirm('Are you sure you want to delete this folder?')) {
-        alert('Folder deleted successfully!');
+      await deleteFolder(repository, writeNote, folders, notes, folderId, mode);
+      const removedCurrent = currentNote && !(await repository.listNotes()).some(n => n.id === currentNote.id);
+      if (removedCurrent) {
+        setCurrentNote(null);
+      } else if (currentNote) {
+        // The open note may have been moved up a level
+        setCurrentNote(await repository.loadNote(currentNote.id));
       }
+      await refreshFolderTree();
     } catch (error) {
-      console.error('Failed to delete folder:', error);
+      reportError('delete folder', error);
     }
   };
 
   const handleMoveItem = async (itemId: string, newParentId?: string) => {
     try {
-      // In a real implementation, this would call a backend API
-      console.log('Moving item:', itemId, 'to parent:', newParentId);
-      alert('Item moved successfully!');
+      if (folders.some(f => f.id === itemId)) {
+        await moveFolder(repository, folders, itemId, newParentId);
+      } else {
+        await moveNote(repository, writeNote, itemId, newParentId);
+        if (currentNote?.id === itemId) {
+          setCurrentNote({ ...currentNote, folderId: newParentId });
+        }
+      }
+      await refreshFolderTree();
+    } catch (error) {
+      reportError('move item', error);
+    }
+  };
+
+  // Tags
+  const allTags = useMemo(() => getTagSummaries(notes).map(summary => summary.name), [notes]);
+
+  const refreshAfterTagChange = async (tag: string) => {
+    await refreshFolderTree();
+    if (currentNote?.tags?.includes(tag)) {
+      // Inline #tags may have been rewritten in the open note
+      setCurrentNote(await repository.loadNote(currentNote.id));
+      setEditorRevision(revision => revision + 1);
+    }
+  };
+
+  const handleTagRename = async (from: string, to: string) => {
+    try {
+      await renameTag(repository, writeNote, notes, from, to);
+      await refreshAfterTagChange(from);
+    } catch (error) {
+      reportError('rename tag', error);
+    }
+  };
+
+  const handleTagDelete = async (tag: string) => {
+    if (!confirm(`Remove #${tag} from every note?`)) {
+      return;
+    }
+    try {
+      await deleteTag(repository, writeNote, notes, tag);
+      await refreshAfterTagChange(tag);
+    } catch (error) {
+      reportError('delete tag', error);
+    }
+  };
+
+  // Search
+  const openSearchResult = async (result: SearchResult) => {
+    await loadNote(result.noteId);
+    if (result.blockId) {
+      setRevealBlock({ blockId: result.blockId });
+    }
+  };
+
+  // Tasks
+  const toggleTask = async (task: TaskEntry, checked: boolean) => {
+    try {
+      const updatedNote = await writeNote(task.noteId, async () => {
+        await history.beforeSave(task.noteId).catch(error => reportError('record note history', error));
+        return setTaskChecked(repository, task.noteId, task.block.id, checked);
+      });
+      refreshNoteEntries(updatedNote);
+      if (currentNote?.id === updatedNote.id) {
+        setCurrentNote(updatedNote);
+        setEditorRevision(revision => revision + 1);
+      }
+      setNotes(await repository.listNotes());
     } catch (error) {
-      console.error('Failed to move item:', error);
+      reportError('update task', error);
+    }
+  };
+
+  const openTask = async (task: TaskEntry) => {
+    await loadNote(task.noteId);
+    setRevealBlock({ blockId: task.block.id });
+  };
+
+  // Backlinks
+  const backlinks = useMemo(
+    () => (currentNote ? getBacklinks(links, notes, currentNote.id) : []),
+    [links, notes, currentNote?.id],
+  );
+  const backlinkCount = new Set(backlinks.map(link => link.sourceId)).size;
+
+  const toggleBacklinks = () => {
+    setShowHistory(false);
+    setShowOutline(false);
+    setShowBacklinks(!showBacklinks);
+  };
+
+  const toggleOutline = () => {
+    setShowHistory(false);
+    setShowBacklinks(false);
+    setShowOutline(!showOutline);
+  };
+
+  const openBacklink = async (link: NoteLinkEntry) => {
+    await loadNote(link.sourceId);
+    setRevealBlock({ blockId: link.blockId });
+  };
+
+  // Favorites
+  const toggleFavorite = async (item: Pick<FavoriteItem, 'kind' | 'id'>, favorite: boolean) => {
+    try {
+      const savedNote = await setFavorite(repository, writeNote, notes, folders, item, favorite);
+      // The next autosave of the open note starts from its new star
+      if (savedNote) {
+        applyNoteChange(savedNote);
+      }
+      await refreshFolderTree();
+    } catch (error) {
+      reportError(favorite ? 'add to Favorites' : 'remove from Favorites', error);
+    }
+  };
+
+  const handleReorderFavorites = async (ordered: FavoriteItem[]) => {
+    try {
+      const savedNotes = await reorderFavorites(repository, writeNote, folders, ordered);
+      savedNotes.forEach(applyNoteChange);
+      await refreshFolderTree();
+    } catch (error) {
+      reportError('reorder Favorites', error);
     }
   };
 
@@ -172,33 +541,165 @@ function App() {
     <div style={{ display: 'flex', height: '100vh' }}>
       <NotionSidebar
         notes={notes}
+        folders={folders}
         currentNoteId={currentNote?.id}
         onNoteSelect={loadNote}
         onNoteCreate={createNewNote}
-        onNoteDelete={deleteNote}
+        onNoteTrash={moveNoteToTrash}
+        onNoteRestore={restoreNoteFromTrash}
+        onNoteArchive={archiveNote}
+        onNoteDeleteForever={deleteNoteForever}
+        onEmptyTrash={emptyTrashNow}
         onNoteExport={exportNote}
         onNoteDuplicate={duplicateNote}
         onFolderCreate={handleFolderCreate}
         onFolderRename={handleFolderRename}
         onFolderDelete={handleFolderDelete}
         onMoveItem={handleMoveItem}
+        onToggleFavorite={toggleFavorite}
+        onReorderFavorites={handleReorderFavorites}
+        onTagRename={handleTagRename}
+        onTagDelete={handleTagDelete}
+        onSearch={searchIndex.search}
+        onSearchResultOpen={openSearchResult}
+        recent={recent}
+        tasks={tasks}
+        onTaskToggle={toggleTask}
+        onTaskOpen={openTask}
       />
       <main style={{ flex: 1, overflow: 'hidden', display: 'flex', flexDirection: 'column' }}>
+        {errorMessage && (
+          <ErrorBanner message={errorMessage} onDismiss={() => setErrorMessage(null)} />
+        )}
         <NoteBreadcrumb
           currentNote={currentNote}
           notes={notes}
+          folders={folders}
           onNavigate={handleBreadcrumbNavigation}
           onNavigateToAllNotes={handleNavigateToAllNotes}
+          actions={currentNote && (
+            <>
+              <button
+                onClick={() => toggleFavorite({ kind: 'note', id: currentNote.id }, !currentNote.favorite)}
+                title={currentNote.favorite ? 'Remove from Favorites' : 'Add to Favorites'}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  padding: '4px',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: 'pointer',
+                  backgroundColor: 'transparent',
+                  color: currentNote.favorite ? '#f59e0b' : '#6b7280'
+                }}
+              >
+                <Star
+                  style={{ width: '16px', height: '16px' }}
+                  fill={currentNote.favorite ? 'currentColor' : 'none'}
+                />
+              </button>
+              <button
+                onClick={() => (showHistory ? setShowHistory(false) : openHistory())}
+                title="Version history"
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  padding: '4px',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: 'pointer',
+                  backgroundColor: showHistory ? '#f3f4f6' : 'transparent',
+                  color: '#6b7280'
+                }}
+              >
+                <History style={{ width: '16px', height: '16px' }} />
+              </button>
+              <button
+                onClick={toggleBacklinks}
+                title="Backlinks"
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '4px',
+                  padding: '4px',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: 'pointer',
+                  backgroundColor: showBacklinks ? '#f3f4f6' : 'transparent',
+                  color: '#6b7280',
+                  fontSize: '12px'
+                }}
+              >
+                <Link2 style={{ width: '16px', height: '16px' }} />
+                {backlinkCount > 0 && backlinkCount}
+              </button>
+              <button
+                onClick={toggleOutline}
+                title="Outline"
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  padding: '4px',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: 'pointer',
+                  backgroundColor: showOutline ? '#f3f4f6' : 'transparent',
+                  color: '#6b7280'
+                }}
+              >
+                <ListTree style={{ width: '16px', height: '16px' }} />
+              </button>
+            </>
+          )}
         />
-        <div style={{ flex: 1, overflow: 'hidden' }}>
+        <div style={{ flex: 1, overflow: 'hidden', display: 'flex' }}>
           {isLoading ? (
             <div>Loading...</div>
           ) : currentNote ? (
-            <Editor
-              key={currentNote.id}
-              note={currentNote}
-              onSave={saveNote}
-            />
+            <>
+              <div style={{ flex: 1, display: 'flex', flexDirection: 'column', overflow: 'hidden' }}>
+                {(currentNote.trashedAt || currentNote.archived) && (
+                  <NoteStatusBanner
+                    note={currentNote}
+                    onRestore={() => restoreNoteFromTrash(currentNote.id)}
+                    onUnarchive={() => archiveNote(currentNote.id, false)}
+                    onDeleteForever={() => deleteNoteForever(currentNote.id)}
+                  />
+                )}
+                <Editor
+                  key={`${currentNote.id}:${editorRevision}`}
+                  note={currentNote}
+                  allTags={allTags}
+                  notes={notes}
+                  revealBlock={revealBlock}
+                  initialScrollTop={access.get(currentNote.id)?.scrollTop}
+                  onScrollPositionChange={(scrollTop) => access.saveScrollPosition(currentNote.id, scrollTop)}
+                  attachments={attachments}
+                  pdfs={pdfs}
+                  onSave={saveNote}
+                  onOpenNote={loadNote}
+                  onError={reportError}
+                  showOutline={showOutline}
+                  onCloseOutline={() => setShowOutline(false)}
+                />
+              </div>
+              {showHistory && (
+                <HistoryPanel
+                  note={currentNote}
+                  snapshots={snapshots}
+                  onRestoreNote={restoreSnapshot}
+                  onRestoreBlock={restoreSnapshotBlock}
+                  onClose={() => setShowHistory(false)}
+                />
+              )}
+              {showBacklinks && (
+                <BacklinksPanel
+                  backlinks={backlinks}
+                  onOpen={openBacklink}
+                  onClose={() => setShowBacklinks(false)}
+                />
+              )}
+            </>
           ) : (
             <WelcomeScreen onCreateNote={createNewNote} />
           )}
@@ -208,8 +709,79 @@ function App() {
   );
 }
 
+const ErrorBanner = ({ message, onDismiss }: { message: string; onDismiss: () => void }) => (
+  <div
+    role="alert"
+    style={{
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: '12px',
+      padding: '8px 24px',
+      backgroundColor: '#fef2f2',
+      borderBottom: '1px solid #fecaca',
+      color: '#b91c1c',
+      fontSize: '13px'
+    }}
+  >
+    <span>{message}</span>
+    <button
+      onClick={onDismiss}
+      style={{ background: 'transparent', border: 'none', color: '#b91c1c', cursor: 'pointer', fontSize: '16px' }}
+      aria-label="Dismiss"
+    >
+      ×
+    </button>
+  </div>
+);
+
+const NoteStatusBanner = ({
+  note,
+  onRestore,
+  onUnarchive,
+  onDeleteForever,
+}: {
+  note: Note;
+  onRestore: () => void;
+  onUnarchive: () => void;
+  onDeleteForever: () => void;
+}) => {
+  const bannerButton: React.CSSProperties = {
+    padding: '4px 10px',
+    border: '1px solid currentColor',
+    borderRadius: '4px',
+    background: 'transparent',
+    color: 'inherit',
+    cursor: 'pointer',
+    fontSize: '12px'
+  };
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      padding: '8px 24px',
+      backgroundColor: note.trashedAt ? '#fef2f2' : '#f3f4f6',
+      color: note.trashedAt ? '#b91c1c' : '#374151',
+      fontSize: '13px'
+    }}>
+      <span style={{ flex: 1 }}>
+        {note.trashedAt ? 'This note is in the Trash.' : 'This note is archived.'}
+      </span>
+      {note.trashedAt ? (
+        <>
+          <button onClick={onRestore} style={bannerButton}>Restore</button>
+          <button onClick={onDeleteForever} style={bannerButton}>Delete forever</button>
+        </>
+      ) : (
+        <button onClick={onUnarchive} style={bannerButton}>Unarchive</button>
+      )}
+    </div>
+  );
+};
+
 const WelcomeScreen = ({ onCreateNote }: { onCreateNote: () => void }) => (
-  <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100%' }}>
+  <div style={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100%' }}>
     <div style={{ textAlign: 'center', maxWidth: '400px', padding: '32px' }}>
       <h2 style={{ fontSize: '24px', fontWeight: 'bold', marginBottom: '12px' }}>Welcome to Flow Notes</h2>
       <p style={{ marginBottom: '32px', fontSize: '16px', color: '#666' }}>
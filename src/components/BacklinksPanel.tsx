@@ -0,0 +1,88 @@
+import React, { useMemo } from 'react';
+import { FileText, Link2, X } from 'lucide-react';
+import { NoteLinkEntry } from '../lib/links';
+
+interface BacklinksPanelProps {
+  // Links into the open note, already filtered to active notes
+  backlinks: NoteLinkEntry[];
+  onOpen: (link: NoteLinkEntry) => void;
+  onClose: () => void;
+}
+
+// Notes linking to the open note, each with the text of the linking blocks
+export const BacklinksPanel: React.FC<BacklinksPanelProps> = ({ backlinks, onOpen, onClose }) => {
+  const bySource = useMemo(() => {
+    const groups = new Map<string, NoteLinkEntry[]>();
+    backlinks.forEach(link => groups.set(link.sourceId, [...(groups.get(link.sourceId) ?? []), link]));
+    return Array.from(groups.values());
+  }, [backlinks]);
+
+  return (
+    <aside style={{
+      width: '300px',
+      borderLeft: '1px solid #e5e7eb',
+      backgroundColor: 'white',
+      display: 'flex',
+      flexDirection: 'column',
+      fontSize: '13px',
+      color: '#374151'
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '12px', borderBottom: '1px solid #e5e7eb' }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontWeight: 600 }}>
+          <Link2 style={{ width: '14px', height: '14px' }} />
+          Backlinks
+          <span style={{ color: '#9ca3af', fontWeight: 400 }}>{bySource.length}</span>
+        </div>
+        <button
+          onClick={onClose}
+          style={{ padding: '4px', border: 'none', background: 'transparent', cursor: 'pointer' }}
+          aria-label="Close backlinks"
+        >
+          <X style={{ width: '14px', height: '14px' }} />
+        </button>
+      </div>
+
+      {bySource.length === 0 ? (
+        <div style={{ padding: '16px', color: '#6b7280' }}>
+          No notes link here yet. Type [[ in another note to link to this one.
+        </div>
+      ) : (
+        <div style={{ flex: 1, overflowY: 'auto', padding: '8px 0' }}>
+          {bySource.map(links => (
+            <div key={links[0].sourceId} style={{ padding: '4px 12px 8px' }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontWeight: 500, marginBottom: '4px' }}>
+                <FileText style={{ width: '14px', height: '14px', color: '#9ca3af', flexShrink: 0 }} />
+                <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {links[0].sourceTitle || 'Untitled'}
+                </span>
+              </div>
+              {links.map(link => (
+                <button
+                  key={link.blockId}
+                  onClick={() => onOpen(link)}
+                  title="Open where it links here"
+                  style={{
+                    display: 'block',
+                    width: '100%',
+                    textAlign: 'left',
+                    padding: '6px 8px',
+                    marginBottom: '4px',
+                    border: 'none',
+                    borderLeft: '3px solid #e5e7eb',
+                    borderRadius: '2px',
+                    backgroundColor: '#f9fafb',
+                    color: '#4b5563',
+                    cursor: 'pointer',
+                    overflowWrap: 'anywhere'
+                  }}
+                >
+                  {link.context.trim()}
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </aside>
+  );
+};
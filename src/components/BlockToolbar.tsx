@@ -1,59 +1,118 @@
-import React from 'react';
-import { Editor } from '@tiptap/react';
-import { 
-  Bold, 
-  Italic, 
-  Strikethrough, 
-  Code, 
-  AlignLeft, 
-  AlignCenter, 
+import React, { useState } from 'react';
+import { Editor, useEditorState } from '@tiptap/react';
+import { BubbleMenu } from '@tiptap/react/menus';
+import { NodeSelection } from '@tiptap/pm/state';
+import { CellSelection } from '@tiptap/pm/tables';
+import {
+  Bold,
+  Italic,
+  Underline,
+  Strikethrough,
+  Code,
+  Link,
+  Unlink,
+  Highlighter,
+  Baseline,
+  AlignLeft,
+  AlignCenter,
   AlignRight,
+  AlignJustify,
+  ChevronDown,
   Undo,
-  Redo
+  Redo,
 } from 'lucide-react';
+import { BlockAlignment } from '../types';
+import { COLORS } from '../lib/colors';
 
 interface BlockToolbarProps {
   editor: Editor;
 }
 
+// Block conversions offered under "Turn into"; clearNodes first lifts the
+// selection out of lists and code so every target starts from a paragraph
+const TURN_INTO = [
+  { label: 'Text', isActive: (e: Editor) => e.isActive('paragraph') && !e.isActive('listItem') && !e.isActive('taskItem'), run: (e: Editor) => e.chain().focus().clearNodes().setParagraph().run() },
+  ...([1, 2, 3] as const).map(level => ({
+    label: `Heading ${level}`,
+    isActive: (e: Editor) => e.isActive('heading', { level }),
+    run: (e: Editor) => e.chain().focus().clearNodes().setHeading({ level }).run(),
+  })),
+  { label: 'Bullet list', isActive: (e: Editor) => e.isActive('bulletList'), run: (e: Editor) => e.chain().focus().clearNodes().toggleBulletList().run() },
+  { label: 'Numbered list', isActive: (e: Editor) => e.isActive('orderedList'), run: (e: Editor) => e.chain().focus().clearNodes().toggleOrderedList().run() },
+  { label: 'Task list', isActive: (e: Editor) => e.isActive('taskList'), run: (e: Editor) => e.chain().focus().clearNodes().toggleTaskList().run() },
+  { label: 'Code block', isActive: (e: Editor) => e.isActive('codeBlock'), run: (e: Editor) => e.chain().focus().clearNodes().setCodeBlock().run() },
+];
+
+const ALIGNMENTS: { value: BlockAlignment; icon: React.ElementType; title: string }[] = [
+  { value: 'left', icon: AlignLeft, title: 'Align left' },
+  { value: 'center', icon: AlignCenter, title: 'Align center' },
+  { value: 'right', icon: AlignRight, title: 'Align right' },
+  { value: 'justify', icon: AlignJustify, title: 'Justify' },
+];
+
+type Panel = 'link' | 'color' | 'turnInto';
+
+// Selection-anchored formatting menu. It shows for text selections only;
+// code blocks and selected images or PDFs have nothing to format, and
+// selected table cells get the TableToolbar.
 export const BlockToolbar: React.FC<BlockToolbarProps> = ({ editor }) => {
-  if (!editor) {
-    return null;
-  }
+  const [panel, setPanel] = useState<Panel | null>(null);
+  const [linkUrl, setLinkUrl] = useState('');
 
-  const isActive = (name: string, attributes?: Record<string, any>) => {
-    return editor.isActive(name, attributes);
+  // The editor does not re-render on every transaction, so subscribe to
+  // exactly the state the buttons reflect
+  const state = useEditorState({
+    editor,
+    selector: ({ editor }) => ({
+      bold: editor.isActive('bold'),
+      italic: editor.isActive('italic'),
+      underline: editor.isActive('underline'),
+      strike: editor.isActive('strike'),
+      code: editor.isActive('code'),
+      link: editor.isActive('link'),
+      href: editor.getAttributes('link').href as string | undefined,
+      color: editor.getAttributes('textStyle').color as string | undefined,
+      highlight: editor.getAttributes('highlight').color as string | undefined,
+      align: ALIGNMENTS.find(a => editor.isActive({ textAlign: a.value }))?.value,
+      blockType: TURN_INTO.find(option => option.isActive(editor))?.label ?? 'Text',
+    }),
+  });
+
+  const togglePanel = (next: Panel) => {
+    if (next === 'link') {
+      setLinkUrl(state.href ?? '');
+    }
+    setPanel(panel === next ? null : next);
   };
 
-  const toggleMark = (name: string, attributes?: Record<string, any>) => {
-    editor.chain().focus().toggleMark(name, attributes).run();
+  const applyLink = () => {
+    const href = linkUrl.trim();
+    const chain = editor.chain().focus().extendMarkRange('link');
+    if (href) {
+      // Bare domains become https links
+      chain.setLink({ href: /^[a-z][\w+.-]*:/i.test(href) ? href : `https://${href}` }).run();
+    } else {
+      chain.unsetLink().run();
+    }
+    setPanel(null);
   };
 
-  // const toggleNode = (name: string, attributes?: Record<string, any>) => {
-  //   editor.chain().focus().toggleNode(name, 'paragraph', attributes).run();
-  // };
-
-  // Note: setTextAlign is not available in the current TipTap version
-  // const setTextAlign = (align: 'left' | 'center' | 'right') => {
-  //   editor.chain().focus().setTextAlign(align).run();
-  // };
-
-  const ToolbarButton = ({ 
-    onClick, 
-    isActive, 
-    icon: Icon, 
-    title 
-  }: { 
-    onClick: () => void; 
-    isActive: boolean; 
-    icon: any; 
-    title: string; 
+  const ToolbarButton = ({
+    onClick,
+    isActive,
+    icon: Icon,
+    title
+  }: {
+    onClick: () => void;
+    isActive: boolean;
+    icon: React.ElementType;
+    title: string;
   }) => (
     <button
       onClick={onClick}
       className={`p-2 rounded-md transition-colors ${
-        isActive 
-          ? 'bg-primary text-primary-foreground' 
+        isActive
+          ? 'bg-primary text-primary-foreground'
           : 'hover:bg-accent text-muted-foreground hover:text-foreground'
       }`}
       title={title}
@@ -63,85 +122,201 @@ export const BlockToolbar: React.FC<BlockToolbarProps> = ({ editor }) => {
   );
 
   return (
-    <div className="flex items-center gap-1 p-2 border-b border-border bg-muted/30">
-      {/* Text Formatting */}
-      <div className="flex items-center gap-1 border-r border-border pr-2">
-        <ToolbarButton
-          onClick={() => toggleMark('bold')}
-          isActive={isActive('bold')}
-          icon={Bold}
-          title="Bold"
-        />
-        <ToolbarButton
-          onClick={() => toggleMark('italic')}
-          isActive={isActive('italic')}
-          icon={Italic}
-          title="Italic"
-        />
-        <ToolbarButton
-          onClick={() => toggleMark('strike')}
-          isActive={isActive('strike')}
-          icon={Strikethrough}
-          title="Strikethrough"
-        />
-        <ToolbarButton
-          onClick={() => toggleMark('code')}
-          isActive={isActive('code')}
-          icon={Code}
-          title="Inline code"
-        />
-      </div>
+    <BubbleMenu
+      editor={editor}
+      shouldShow={({ editor, state: editorState }) =>
+        !editorState.selection.empty &&
+        !(editorState.selection instanceof NodeSelection) &&
+        !(editorState.selection instanceof CellSelection) &&
+        !editor.isActive('codeBlock')
+      }
+      className="bg-background border border-border rounded-lg shadow-lg"
+    >
+      <div className="flex items-center gap-1 p-1">
+        {/* History */}
+        <div className="flex items-center gap-1 border-r border-border pr-1">
+          <ToolbarButton
+            onClick={() => editor.chain().focus().undo().run()}
+            isActive={false}
+            icon={Undo}
+            title="Undo"
+          />
+          <ToolbarButton
+            onClick={() => editor.chain().focus().redo().run()}
+            isActive={false}
+            icon={Redo}
+            title="Redo"
+          />
+        </div>
 
-      {/* Text Alignment - Disabled until setTextAlign is available */}
-      {/* <div className="flex items-center gap-1 border-r border-border pr-2">
-        <ToolbarButton
-          onClick={() => setTextAlign('left')}
-          isActive={isActive('paragraph', { textAlign: 'left' })}
-          icon={AlignLeft}
-          title="Align left"
-        />
-        <ToolbarButton
-          onClick={() => setTextAlign('center')}
-          isActive={isActive('paragraph', { textAlign: 'center' })}
-          icon={AlignCenter}
-          title="Align center"
-        />
-        <ToolbarButton
-          onClick={() => setTextAlign('right')}
-          isActive={isActive('paragraph', { textAlign: 'right' })}
-          icon={AlignRight}
-          title="Align right"
-        />
-      </div> */}
-
-      {/* History */}
-      <div className="flex items-center gap-1 border-r border-border pr-2">
-        <ToolbarButton
-          onClick={() => editor.chain().focus().undo().run()}
-          isActive={false}
-          icon={Undo}
-          title="Undo"
-        />
-        <ToolbarButton
-          onClick={() => editor.chain().focus().redo().run()}
-          isActive={false}
-          icon={Redo}
-          title="Redo"
-        />
-      </div>
+        {/* Block type */}
+        <div className="flex items-center gap-1 border-r border-border pr-1">
+          <button
+            onClick={() => togglePanel('turnInto')}
+            className="flex items-center gap-1 px-2 py-1 rounded-md text-sm text-muted-foreground hover:bg-accent hover:text-foreground"
+            title="Turn into"
+          >
+            {state.blockType}
+            <ChevronDown className="w-3 h-3" />
+          </button>
+        </div>
+
+        {/* Text Formatting */}
+        <div className="flex items-center gap-1 border-r border-border pr-1">
+          <ToolbarButton
+            onClick={() => editor.chain().focus().toggleBold().run()}
+            isActive={state.bold}
+            icon={Bold}
+            title="Bold"
+          />
+          <ToolbarButton
+            onClick={() => editor.chain().focus().toggleItalic().run()}
+            isActive={state.italic}
+            icon={Italic}
+            title="Italic"
+          />
+          <ToolbarButton
+            onClick={() => editor.chain().focus().toggleUnderline().run()}
+            isActive={state.underline}
+            icon={Underline}
+            title="Underline"
+          />
+          <ToolbarButton
+            onClick={() => editor.chain().focus().toggleStrike().run()}
+            isActive={state.strike}
+            icon={Strikethrough}
+            title="Strikethrough"
+          />
+          <ToolbarButton
+            onClick={() => editor.chain().focus().toggleCode().run()}
+            isActive={state.code}
+            icon={Code}
+            title="Inline code"
+          />
+          <ToolbarButton
+            onClick={() => togglePanel('link')}
+            isActive={state.link}
+            icon={Link}
+            title={state.link ? 'Edit link' : 'Add link'}
+          />
+          <ToolbarButton
+            onClick={() => togglePanel('color')}
+            isActive={Boolean(state.color || state.highlight)}
+            icon={Baseline}
+            title="Text color and highlight"
+          />
+        </div>
 
-      {/* Block Type Indicator */}
-      <div className="ml-auto text-xs text-muted-foreground px-2">
-        {isActive('heading', { level: 1 }) && 'Heading 1'}
-        {isActive('heading', { level: 2 }) && 'Heading 2'}
-        {isActive('heading', { level: 3 }) && 'Heading 3'}
-        {isActive('bulletList') && 'Bullet List'}
-        {isActive('orderedList') && 'Numbered List'}
-        {isActive('taskList') && 'Task List'}
-        {isActive('codeBlock') && 'Code Block'}
-        {isActive('paragraph') && 'Paragraph'}
+        {/* Text Alignment */}
+        <div className="flex items-center gap-1">
+          {ALIGNMENTS.map(({ value, icon, title }) => (
+            <ToolbarButton
+              key={value}
+              onClick={() => editor.chain().focus().setTextAlign(value).run()}
+              isActive={state.align === value}
+              icon={icon}
+              title={title}
+            />
+          ))}
+        </div>
       </div>
-    </div>
+
+      {panel === 'link' && (
+        <div className="flex items-center gap-1 p-2 border-t border-border">
+          <input
+            type="url"
+            value={linkUrl}
+            onChange={(e) => setLinkUrl(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                applyLink();
+              } else if (e.key === 'Escape') {
+                setPanel(null);
+                editor.commands.focus();
+              }
+            }}
+            placeholder="Paste or type a link"
+            className="flex-1 min-w-0 px-2 py-1 text-sm bg-transparent border border-border rounded-md outline-none"
+            autoFocus
+          />
+          {state.link && (
+            <ToolbarButton
+              onClick={() => {
+                editor.chain().focus().extendMarkRange('link').unsetLink().run();
+                setPanel(null);
+              }}
+              isActive={false}
+              icon={Unlink}
+              title="Remove link"
+            />
+          )}
+        </div>
+      )}
+
+      {panel === 'color' && (
+        <div className="p-2 border-t border-border text-xs text-muted-foreground">
+          <div className="mb-1">Text color</div>
+          <div className="flex items-center gap-1 mb-2">
+            <button
+              onClick={() => editor.chain().focus().unsetColor().run()}
+              className="w-6 h-6 rounded border border-border text-sm"
+              title="Default"
+            >
+              A
+            </button>
+            {COLORS.map(color => (
+              <button
+                key={color.name}
+                onClick={() => editor.chain().focus().setColor(color.text).run()}
+                className="w-6 h-6 rounded border border-border text-sm font-medium"
+                style={{ color: color.text, outline: state.color === color.text ? '2px solid currentColor' : 'none' }}
+                title={color.name}
+              >
+                A
+              </button>
+            ))}
+          </div>
+          <div className="mb-1">Highlight</div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => editor.chain().focus().unsetHighlight().run()}
+              className="w-6 h-6 rounded border border-border"
+              title="No highlight"
+            >
+              <Highlighter className="w-3 h-3 mx-auto" />
+            </button>
+            {COLORS.map(color => (
+              <button
+                key={color.name}
+                onClick={() => editor.chain().focus().setHighlight({ color: color.highlight }).run()}
+                className="w-6 h-6 rounded border border-border"
+                style={{ backgroundColor: color.highlight, outline: state.highlight === color.highlight ? '2px solid #9ca3af' : 'none' }}
+                title={`${color.name} highlight`}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {panel === 'turnInto' && (
+        <div className="py-1 border-t border-border">
+          {TURN_INTO.map(option => (
+            <button
+              key={option.label}
+              onClick={() => {
+                option.run(editor);
+                setPanel(null);
+              }}
+              className={`w-full px-3 py-1 text-left text-sm hover:bg-accent ${
+                option.label === state.blockType ? 'text-foreground font-medium' : 'text-muted-foreground'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </BubbleMenu>
   );
 };
-
@@ -2,29 +2,159 @@ import React, { useState, useEffect, useRef } from 'react';
 import { useEditor, EditorContent } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import Placeholder from '@tiptap/extension-placeholder';
-import { Note, Block, BlockType } from '../types';
+import TaskList from '@tiptap/extension-task-list';
+import Highlight from '@tiptap/extension-highlight';
+import TextAlign from '@tiptap/extension-text-align';
+import { Color, TextStyle } from '@tiptap/extension-text-style';
+import { Note, NoteMetadata } from '../types';
+import { blocksToHTML, htmlToBlocks } from '../lib/blocks';
+import { AttachmentStore } from '../lib/attachments';
+import { isActive } from '../lib/notes';
+import { refreshLinkLabels } from '../lib/links';
+import { PdfLibrary } from '../lib/pdfs';
+import { BlockId } from '../extensions/BlockId';
+// Block types register their slash commands as they load, so the menu lists
+// them in this order
+import { TaskItem } from '../extensions/TaskItem';
+import { ToggleBlock } from '../extensions/ToggleBlock';
+import { Quote } from '../extensions/Quote';
+import { Callout } from '../extensions/Callout';
+import { TableBlock, TableCell, TableHeader, TableRow } from '../extensions/TableBlock';
+import { CodeBlock } from '../extensions/CodeBlock';
+import { InlineMath, MathBlock } from '../extensions/Math';
+import { Diagram } from '../extensions/Diagram';
+import { ImageBlock } from '../extensions/ImageBlock';
+import { PdfBlock } from '../extensions/PdfBlock';
+import { BlockGroup } from '../extensions/BlockGroup';
+import { MarkdownShortcuts } from '../extensions/MarkdownShortcuts';
+import { MarkdownPaste } from '../extensions/MarkdownPaste';
+import { FindReplace } from '../extensions/FindReplace';
+import { Outline } from '../extensions/Outline';
+import { BlockNesting } from '../extensions/BlockNesting';
+import { DragHandle } from '../extensions/DragHandle';
+import { InlineTag } from '../extensions/InlineTag';
+import { NoteLink } from '../extensions/NoteLink';
+import { SlashCommand } from '../extensions/SlashCommand';
+import { TagEditor } from './TagEditor';
+import { BlockToolbar } from './BlockToolbar';
+import { TableToolbar } from './TableToolbar';
+import { FindBar } from './FindBar';
+import { OutlinePanel } from './OutlinePanel';
 
 interface EditorProps {
   note: Note;
+  // Tags used anywhere in the vault, for autocomplete
+  allTags: string[];
+  // Notes offered by `[[` link autocomplete
+  notes: NoteMetadata[];
+  // Scrolls to and briefly highlights this block; a new object re-triggers it
+  revealBlock?: { blockId: string };
+  // Where the note was last scrolled to, restored on mount
+  initialScrollTop?: number;
+  onScrollPositionChange?: (scrollTop: number) => void;
+  // Pasted and dropped images are copied into the vault through this
+  attachments: AttachmentStore;
+  // Imports PDFs and loads them for pdf blocks
+  pdfs: PdfLibrary;
   onSave: (note: Note) => void;
+  // Follows a `[[link]]` to another note
+  onOpenNote: (noteId: string) => void;
+  onError?: (action: string, error: unknown) => void;
+  // The outline panel is shown next to the note
+  showOutline?: boolean;
+  onCloseOutline?: () => void;
 }
 
-export const Editor: React.FC<EditorProps> = ({ note, onSave }) => {
+export const Editor: React.FC<EditorProps> = ({
+  note,
+  allTags,
+  notes,
+  revealBlock,
+  initialScrollTop,
+  onScrollPositionChange,
+  attachments,
+  pdfs,
+  onSave,
+  onOpenNote,
+  onError,
+  showOutline = false,
+  onCloseOutline,
+}) => {
   const [title, setTitle] = useState(note.title);
   const [isUserTyping, setIsUserTyping] = useState(false);
   const [lastNoteId, setLastNoteId] = useState(note.id);
   const [hasUserModifiedContent, setHasUserModifiedContent] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [isFindOpen, setIsFindOpen] = useState(false);
+  // Bumped on every Mod-F, so an open find bar takes focus again
+  const [findFocusRequest, setFindFocusRequest] = useState(0);
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Autosaves start from the latest note, so changes saved elsewhere while
+  // one was pending (a new star, a move) are kept
+  const noteRef = useRef(note);
+  noteRef.current = note;
+  // Read by the link extension, which is configured once per editor
+  const linkTargetsRef = useRef<NoteMetadata[]>([]);
+  linkTargetsRef.current = notes.filter(other => other.id !== note.id && isActive(other));
+  const scrollTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const editor = useEditor({
     extensions: [
-      StarterKit,
+      // Blockquotes and code blocks are replaced by Quote and the
+      // highlighted CodeBlock below
+      StarterKit.configure({
+        blockquote: false,
+        codeBlock: false,
+        // Clicking a link while editing should place the caret, not navigate
+        link: { openOnClick: false, autolink: true },
+      }),
+      CodeBlock,
+      Quote,
+      Callout,
+      MathBlock,
+      InlineMath,
+      Diagram,
+      TaskList,
+      TaskItem.configure({ nested: true }),
+      ImageBlock.configure({
+        attachments,
+        onError: error => onError?.('add image', error),
+      }),
+      TextStyle,
+      Color,
+      Highlight.configure({ multicolor: true }),
+      // Stored on the Block as `align`
+      TextAlign.configure({ types: ['heading', 'paragraph'] }),
+      PdfBlock.configure({
+        library: pdfs,
+        onError: error => onError?.('load PDF', error),
+      }),
+      ToggleBlock,
+      BlockGroup,
+      TableBlock,
+      TableRow,
+      TableHeader,
+      TableCell,
+      BlockNesting,
+      MarkdownShortcuts,
+      MarkdownPaste,
+      FindReplace,
+      Outline,
+      DragHandle,
+      BlockId,
+      InlineTag,
+      NoteLink.configure({
+        getNotes: () => linkTargetsRef.current,
+        onOpen: onOpenNote,
+      }),
+      SlashCommand,
       Placeholder.configure({
         placeholder: 'Press "/" for commands',
       }),
     ],
-    content: blocksToHTML(note.blocks),
+    // Links show renamed notes' new titles from the first save on
+    content: blocksToHTML(refreshLinkLabels(note.blocks, notes)),
     onUpdate: ({ editor }) => {
       console.log('Editor content updated');
       setIsUserTyping(true);
@@ -41,7 +171,7 @@ export const Editor: React.FC<EditorProps> = ({ note, onSave }) => {
         setIsSaving(true);
         const blocks = htmlToBlocks(editor.getHTML());
         const updatedNote = {
-          ...note,
+          ...noteRef.current,
           blocks,
           title,
           updatedAt: new Date().toISOString(),
@@ -70,7 +200,7 @@ export const Editor: React.FC<EditorProps> = ({ note, onSave }) => {
       setHasUserModifiedContent(false); // Reset modification flag for new note
       setIsSaving(false); // Reset saving state for new note
       if (editor && !editor.isDestroyed) {
-        const content = blocksToHTML(note.blocks);
+        const content = blocksToHTML(refreshLinkLabels(note.blocks, notes));
         editor.commands.setContent(content);
       }
     }
@@ -92,12 +222,57 @@ export const Editor: React.FC<EditorProps> = ({ note, onSave }) => {
     }
   }, [note.title]);
 
+  useEffect(() => {
+    if (!editor || !initialScrollTop) {
+      return;
+    }
+    const frame = requestAnimationFrame(() => {
+      scrollRef.current?.scrollTo({ top: initialScrollTop });
+    });
+    return () => cancelAnimationFrame(frame);
+    // Only on mount; later changes come from this editor's own scrolling
+  }, [editor]);
+
+  const handleScroll = () => {
+    if (scrollTimeoutRef.current) {
+      clearTimeout(scrollTimeoutRef.current);
+    }
+    scrollTimeoutRef.current = setTimeout(() => {
+      if (scrollRef.current) {
+        onScrollPositionChange?.(scrollRef.current.scrollTop);
+      }
+    }, 200);
+  };
+
+  useEffect(() => {
+    if (!editor || !revealBlock) {
+      return;
+    }
+    // Wait a frame so a freshly mounted editor has rendered its blocks
+    const frame = requestAnimationFrame(() => {
+      const element = editor.view.dom.querySelector<HTMLElement>(
+        `[data-block-id="${CSS.escape(revealBlock.blockId)}"]`,
+      );
+      if (!element) {
+        return;
+      }
+      element.scrollIntoView({ block: 'center' });
+      editor.commands.focus(editor.view.posAtDOM(element, 0), { scrollIntoView: false });
+      element.classList.add('block-revealed');
+      setTimeout(() => element.classList.remove('block-revealed'), 1500);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [editor, revealBlock]);
+
   // Cleanup timeout on unmount
   useEffect(() => {
     return () => {
       if (saveTimeoutRef.current) {
         clearTimeout(saveTimeoutRef.current);
       }
+      if (scrollTimeoutRef.current) {
+        clearTimeout(scrollTimeoutRef.current);
+      }
     };
   }, []);
 
@@ -117,126 +292,123 @@ export const Editor: React.FC<EditorProps> = ({ note, onSave }) => {
     }
   }
 
+  // Mod-F anywhere in the note, title included, opens find and replace
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.metaKey || e.ctrlKey) && !e.altKey && !e.shiftKey && e.key.toLowerCase() === 'f') {
+      e.preventDefault();
+      setIsFindOpen(true);
+      setFindFocusRequest(request => request + 1);
+    }
+  };
+
+  const handleTagsChange = (tags: string[]) => {
+    onSave({
+      ...note,
+      tags: tags.length > 0 ? tags : undefined,
+      updatedAt: new Date().toISOString(),
+    });
+  };
+
 
   if (!editor) {
     return null;
   }
 
   return (
-    <div style={{
-      flex: 1,
-      display: 'flex',
-      flexDirection: 'column',
-      backgroundColor: '#ffffff',
-      overflow: 'hidden'
-    }}>
-      <div style={{
-        flex: 1,
-        overflowY: 'auto',
-        backgroundColor: '#ffffff'
-      }}>
-        <div style={{
-          maxWidth: '900px',
-          margin: '0 auto',
-          padding: '96px 96px 0 96px',
-          minHeight: '100%'
-        }}>
-          {/* Notion-style title */}
+    <div style={{ flex: 1, display: 'flex', overflow: 'hidden' }}>
+      <div
+        onKeyDown={handleKeyDown}
+        style={{
+          flex: 1,
+          display: 'flex',
+          flexDirection: 'column',
+          backgroundColor: '#ffffff',
+          overflow: 'hidden',
+          position: 'relative'
+        }}
+      >
+        {isFindOpen && (
+          <FindBar editor={editor} focusRequest={findFocusRequest} onClose={() => setIsFindOpen(false)} />
+        )}
+        <div
+          ref={scrollRef}
+          onScroll={handleScroll}
+          style={{
+            flex: 1,
+            overflowY: 'auto',
+            backgroundColor: '#ffffff'
+          }}
+        >
           <div style={{
-            marginBottom: '8px',
-            position: 'relative'
+            maxWidth: '900px',
+            margin: '0 auto',
+            padding: '96px 96px 0 96px',
+            minHeight: '100%'
           }}>
-            <input
-              type="text"
-              value={title}
-              onChange={handleTitleChange}
-              onBlur={handleTitleBlur}
-              style={{
-                width: '100%',
-                fontSize: '40px',
-                fontWeight: '700',
-                lineHeight: '1.2',
-                color: '#37352f',
-                backgroundColor: 'transparent',
-                border: 'none',
-                outline: 'none',
-                padding: '3px 0',
-                fontFamily: 'ui-sans-serif, -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, "Apple Color Emoji", Arial, sans-serif, "Segoe UI Emoji", "Segoe UI Symbol"',
-                resize: 'none',
-                minHeight: '1.2em'
-              }}
-              placeholder="Untitled"
-            />
-          </div>
-          
-          {/* Notion-style editor */}
-          <div 
-            style={{
-              minHeight: 'calc(100vh - 200px)',
-              cursor: 'text',
+            {/* Notion-style title */}
+            <div style={{
+              marginBottom: '8px',
               position: 'relative'
-            }}
-            onClick={() => editor?.commands.focus()}
-          >
-            <EditorContent 
-              editor={editor} 
+            }}>
+              <input
+                type="text"
+                value={title}
+                onChange={handleTitleChange}
+                onBlur={handleTitleBlur}
+                style={{
+                  width: '100%',
+                  fontSize: '40px',
+                  fontWeight: '700',
+                  lineHeight: '1.2',
+                  color: '#37352f',
+                  backgroundColor: 'transparent',
+                  border: 'none',
+                  outline: 'none',
+                  padding: '3px 0',
+                  fontFamily: 'ui-sans-serif, -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, "Apple Color Emoji", Arial, sans-serif, "Segoe UI Emoji", "Segoe UI Symbol"',
+                  resize: 'none',
+                  minHeight: '1.2em'
+                }}
+                placeholder="Untitled"
+              />
+            </div>
+
+            <TagEditor tags={note.tags ?? []} suggestions={allTags} onChange={handleTagsChange} />
+          
+            {/* Notion-style editor */}
+            <div 
               style={{
-                outline: 'none',
-                fontFamily: 'ui-sans-serif, -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, "Apple Color Emoji", Arial, sans-serif, "Segoe UI Emoji", "Segoe UI Symbol"',
-                fontSize: '16px',
-                lineHeight: '1.5',
-                color: '#37352f'
+                minHeight: 'calc(100vh - 200px)',
+                cursor: 'text',
+                position: 'relative'
               }}
-            />
+              // Clicks on the blank area below the text focus the editor; ones
+              // inside it are left alone so captions and task controls keep focus
+              onClick={(e) => {
+                if (!editor.view.dom.contains(e.target as Node)) {
+                  editor.commands.focus();
+                }
+              }}
+            >
+              <EditorContent 
+                editor={editor} 
+                style={{
+                  outline: 'none',
+                  fontFamily: 'ui-sans-serif, -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, "Apple Color Emoji", Arial, sans-serif, "Segoe UI Emoji", "Segoe UI Symbol"',
+                  fontSize: '16px',
+                  lineHeight: '1.5',
+                  color: '#37352f'
+                }}
+              />
+              <BlockToolbar editor={editor} />
+              <TableToolbar editor={editor} />
+            </div>
           </div>
         </div>
       </div>
+      {showOutline && (
+        <OutlinePanel editor={editor} scrollRef={scrollRef} onClose={() => onCloseOutline?.()} />
+      )}
     </div>
   );
 };
-
-// Helper functions for content conversion
-function blocksToHTML(blocks: Block[]): string {
-  if (!blocks || blocks.length === 0) {
-    return '<p></p>'; // Empty paragraph for clean start
-  }
-  return blocks.map(block => `<p>${block.content || ''}</p>`).join('');
-}
-
-function htmlToBlocks(html: string): Block[] {
-  if (!html || html.trim() === '') {
-    return [{
-      id: crypto.randomUUID(),
-      type: 'text' as BlockType,
-      content: '',
-      order: 0,
-    }];
-  }
-  
-  const parser = new DOMParser();
-  const doc = parser.parseFromString(html, 'text/html');
-  const blocks: Block[] = [];
-  
-  // Handle empty content
-  const paragraphs = doc.body.querySelectorAll('p');
-  if (paragraphs.length === 0) {
-    blocks.push({
-      id: crypto.randomUUID(),
-      type: 'text' as BlockType,
-      content: '',
-      order: 0,
-    });
-  } else {
-    paragraphs.forEach((p, index) => {
-      blocks.push({
-        id: crypto.randomUUID(),
-        type: 'text' as BlockType,
-        content: p.textContent || '',
-        order: index,
-      });
-    });
-  }
-  
-  return blocks;
-}
-
@@ -0,0 +1,170 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Editor, useEditorState } from '@tiptap/react';
+import { CaseSensitive, ChevronDown, ChevronUp, Regex, Replace, ReplaceAll, WholeWord, X } from 'lucide-react';
+import { FindOptions, findReplaceKey } from '../extensions/FindReplace';
+
+interface FindBarProps {
+  editor: Editor;
+  // Focuses and selects the query again; incremented on every Mod-F
+  focusRequest: number;
+  onClose: () => void;
+}
+
+// Find and replace in the open note, over its top right corner. Enter and
+// Shift-Enter step through the matches, Escape closes the bar and leaves the
+// current match selected.
+export const FindBar: React.FC<FindBarProps> = ({ editor, focusRequest, onClose }) => {
+  // Starts from the selected text, as long as it is within one block
+  const [query, setQuery] = useState(() => {
+    const { from, to, $from, $to } = editor.state.selection;
+    return $from.sameParent($to) ? editor.state.doc.textBetween(from, to) : '';
+  });
+  const [replacement, setReplacement] = useState('');
+  const [options, setOptions] = useState<FindOptions>({ caseSensitive: false, wholeWord: false, regex: false });
+  const queryRef = useRef<HTMLInputElement>(null);
+
+  const state = useEditorState({
+    editor,
+    selector: ({ editor }) => {
+      const find = findReplaceKey.getState(editor.state);
+      return {
+        count: find?.matches.length ?? 0,
+        current: find?.current ?? 0,
+        error: find?.error ?? null,
+      };
+    },
+  });
+
+  useEffect(() => {
+    editor.commands.setFindQuery(query, options);
+  }, [editor, query, options]);
+
+  useEffect(() => {
+    queryRef.current?.focus();
+    queryRef.current?.select();
+  }, [focusRequest]);
+
+  // Highlights go with the bar
+  useEffect(() => () => {
+    if (!editor.isDestroyed) {
+      editor.commands.clearFind();
+    }
+  }, [editor]);
+
+  const close = () => {
+    const find = findReplaceKey.getState(editor.state);
+    const match = find?.matches[find.current];
+    if (match) {
+      editor.chain().focus().setTextSelection(match).run();
+    } else {
+      editor.commands.focus();
+    }
+    onClose();
+  };
+
+  const toggle = (option: keyof FindOptions) => setOptions(current => ({ ...current, [option]: !current[option] }));
+
+  const handleQueryKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      if (event.shiftKey) {
+        editor.commands.findPrevious();
+      } else {
+        editor.commands.findNext();
+      }
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      close();
+    }
+  };
+
+  // Enter replaces the current match, Mod-Enter all of them
+  const handleReplacementKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      if (event.metaKey || event.ctrlKey) {
+        editor.commands.replaceAllMatches(replacement);
+      } else {
+        editor.commands.replaceMatch(replacement);
+      }
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      close();
+    }
+  };
+
+  const ToolbarButton = ({
+    onClick,
+    disabled = false,
+    isActive = false,
+    icon: Icon,
+    title
+  }: {
+    onClick: () => void;
+    disabled?: boolean;
+    isActive?: boolean;
+    icon: React.ElementType;
+    title: string;
+  }) => (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`p-1 rounded-md transition-colors disabled:opacity-40 disabled:pointer-events-none ${
+        isActive
+          ? 'bg-primary text-primary-foreground'
+          : 'hover:bg-accent text-muted-foreground hover:text-foreground'
+      }`}
+      title={title}
+      aria-pressed={isActive}
+    >
+      <Icon className="w-4 h-4" />
+    </button>
+  );
+
+  const inputClassName = 'w-56 px-2 py-1 text-sm rounded-md border bg-background outline-none focus:border-primary';
+  const status = state.error
+    ? 'Invalid regex'
+    : !query
+      ? ''
+      : state.count === 0
+        ? 'No results'
+        : `${state.current + 1} of ${state.count}`;
+
+  return (
+    <div className="absolute top-3 right-6 z-20 bg-background border border-border rounded-lg shadow-lg p-2 flex flex-col gap-1">
+      <div className="flex items-center gap-1">
+        <input
+          ref={queryRef}
+          value={query}
+          onChange={event => setQuery(event.target.value)}
+          onKeyDown={handleQueryKeyDown}
+          placeholder="Find"
+          aria-label="Find"
+          title={state.error ?? undefined}
+          className={`${inputClassName} ${state.error ? 'border-red-400' : 'border-border'}`}
+        />
+        <ToolbarButton onClick={() => toggle('caseSensitive')} isActive={options.caseSensitive} icon={CaseSensitive} title="Match case" />
+        <ToolbarButton onClick={() => toggle('wholeWord')} isActive={options.wholeWord} icon={WholeWord} title="Match whole word" />
+        <ToolbarButton onClick={() => toggle('regex')} isActive={options.regex} icon={Regex} title="Use regular expression" />
+        <span className={`w-20 text-xs text-center ${state.error ? 'text-red-500' : 'text-muted-foreground'}`}>
+          {status}
+        </span>
+        <ToolbarButton onClick={() => editor.commands.findPrevious()} disabled={state.count === 0} icon={ChevronUp} title="Previous match (Shift+Enter)" />
+        <ToolbarButton onClick={() => editor.commands.findNext()} disabled={state.count === 0} icon={ChevronDown} title="Next match (Enter)" />
+        <ToolbarButton onClick={close} icon={X} title="Close (Escape)" />
+      </div>
+      <div className="flex items-center gap-1">
+        <input
+          value={replacement}
+          onChange={event => setReplacement(event.target.value)}
+          onKeyDown={handleReplacementKeyDown}
+          placeholder="Replace"
+          aria-label="Replace"
+          className={`${inputClassName} border-border`}
+        />
+        <ToolbarButton onClick={() => editor.commands.replaceMatch(replacement)} disabled={state.count === 0} icon={Replace} title="Replace (Enter)" />
+        <ToolbarButton onClick={() => editor.commands.replaceAllMatches(replacement)} disabled={state.count === 0} icon={ReplaceAll} title="Replace all (Ctrl+Enter)" />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, RotateCcw, X } from 'lucide-react';
+import { Block, Note, NoteSnapshot } from '../types';
+import { BlockDiff, diffBlocks } from '../lib/history';
+import { blockToPlainText } from '../lib/blocks';
+
+interface HistoryPanelProps {
+  note: Note;
+  snapshots: NoteSnapshot[];
+  onRestoreNote: (snapshot: NoteSnapshot) => void;
+  onRestoreBlock: (snapshot: NoteSnapshot, block: Block) => void;
+  onClose: () => void;
+}
+
+const changeStyles: Record<BlockDiff['change'], React.CSSProperties> = {
+  added: { backgroundColor: '#ecfdf5', borderLeft: '3px solid #10b981' },
+  removed: { backgroundColor: '#fef2f2', borderLeft: '3px solid #ef4444', textDecoration: 'line-through' },
+  changed: { backgroundColor: '#fffbeb', borderLeft: '3px solid #f59e0b' },
+  unchanged: { borderLeft: '3px solid transparent', color: '#9ca3af' },
+};
+
+const describeBlock = (block: Block) => {
+  const text = blockToPlainText(block).trim();
+  if (text) {
+    return text;
+  }
+  return `[${block.type}]`;
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  note,
+  snapshots,
+  onRestoreNote,
+  onRestoreBlock,
+  onClose,
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(snapshots[0]?.id ?? null);
+
+  useEffect(() => {
+    if (!snapshots.some(snapshot => snapshot.id === selectedId)) {
+      setSelectedId(snapshots[0]?.id ?? null);
+    }
+  }, [snapshots, selectedId]);
+
+  const selected = snapshots.find(snapshot => snapshot.id === selectedId) ?? null;
+  const diffs = useMemo(
+    () => (selected ? diffBlocks(selected.blocks, note.blocks) : []),
+    [selected, note.blocks],
+  );
+  const changeCount = diffs.filter(diff => diff.change !== 'unchanged').length;
+
+  return (
+    <aside style={{
+      width: '340px',
+      borderLeft: '1px solid #e5e7eb',
+      backgroundColor: 'white',
+      display: 'flex',
+      flexDirection: 'column',
+      fontSize: '13px',
+      color: '#374151'
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '12px', borderBottom: '1px solid #e5e7eb' }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontWeight: 600 }}>
+          <History style={{ width: '14px', height: '14px' }} />
+          Version history
+        </div>
+        <button
+          onClick={onClose}
+          style={{ padding: '4px', border: 'none', background: 'transparent', cursor: 'pointer' }}
+          aria-label="Close history"
+        >
+          <X style={{ width: '14px', height: '14px' }} />
+        </button>
+      </div>
+
+      {snapshots.length === 0 ? (
+        <div style={{ padding: '16px', color: '#6b7280' }}>
+          No earlier versions yet. Snapshots are taken automatically while you edit.
+        </div>
+      ) : (
+        <>
+          {/* Snapshot list */}
+          <div style={{ maxHeight: '35%', overflowY: 'auto', borderBottom: '1px solid #e5e7eb' }}>
+            {snapshots.map(snapshot => (
+              <button
+                key={snapshot.id}
+                onClick={() => setSelectedId(snapshot.id)}
+                style={{
+                  display: 'block',
+                  width: '100%',
+                  textAlign: 'left',
+                  padding: '8px 12px',
+                  border: 'none',
+                  cursor: 'pointer',
+                  backgroundColor: snapshot.id === selectedId ? '#f3f4f6' : 'transparent'
+                }}
+              >
+                <div style={{ fontWeight: 500 }}>{new Date(snapshot.createdAt).toLocaleString()}</div>
+                <div style={{ color: '#6b7280', fontSize: '12px' }}>{snapshot.title || 'Untitled'}</div>
+              </button>
+            ))}
+          </div>
+
+          {/* Diff against the current note */}
+          {selected && (
+            <div style={{ flex: 1, overflowY: 'auto', padding: '12px' }}>
+              <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '8px' }}>
+                <span style={{ color: '#6b7280' }}>
+                  {changeCount === 0 ? 'Same as current version' : `${changeCount} block${changeCount === 1 ? '' : 's'} differ`}
+                </span>
+                <button
+                  onClick={() => onRestoreNote(selected)}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '4px',
+                    padding: '4px 8px',
+                    backgroundColor: '#111827',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                    fontSize: '12px'
+                  }}
+                >
+                  <RotateCcw style={{ width: '12px', height: '12px' }} />
+                  Restore version
+                </button>
+              </div>
+              {selected.title !== note.title && (
+                <div style={{ ...changeStyles.changed, padding: '6px 8px', marginBottom: '4px' }}>
+                  Title: {selected.title || 'Untitled'}
+                </div>
+              )}
+              {diffs.map(diff => {
+                const block = diff.after ?? diff.before!;
+                const canRestore = diff.change === 'removed' || diff.change === 'changed';
+                return (
+                  <div
+                    key={`${diff.change}-${block.id}`}
+                    style={{ ...changeStyles[diff.change], display: 'flex', gap: '8px', padding: '6px 8px', marginBottom: '4px', borderRadius: '2px' }}
+                  >
+                    <div style={{ flex: 1, minWidth: 0, overflowWrap: 'anywhere' }}>
+                      {diff.change === 'changed' ? (
+                        <>
+                          <div style={{ color: '#9ca3af', textDecoration: 'line-through' }}>{describeBlock(diff.before!)}</div>
+                          <div>{describeBlock(diff.after!)}</div>
+                        </>
+                      ) : (
+                        describeBlock(block)
+                      )}
+                    </div>
+                    {canRestore && (
+                      <button
+                        onClick={() => onRestoreBlock(selected, diff.before!)}
+                        title="Restore this block"
+                        style={{ alignSelf: 'flex-start', padding: '2px', border: 'none', background: 'transparent', cursor: 'pointer' }}
+                      >
+                        <RotateCcw style={{ width: '12px', height: '12px' }} />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </aside>
+  );
+};
@@ -7,23 +7,29 @@ import {
   BreadcrumbPage,
   BreadcrumbSeparator,
 } from "./ui/breadcrumb";
-import { Home, FileText } from "lucide-react";
-import { Note, NoteMetadata } from '../types';
+import { Home, FileText, Folder as FolderIcon } from "lucide-react";
+import { Folder, Note, NoteMetadata } from '../types';
+import { getFolderPath } from '../lib/folders';
 
 interface NoteBreadcrumbProps {
   currentNote: Note | null;
   notes: NoteMetadata[];
+  folders: Folder[];
   onNavigate: (noteId: string) => void;
   onNavigateToAllNotes: () => void;
+  // Note-level controls shown at the right end of the bar
+  actions?: React.ReactNode;
 }
 
 export const NoteBreadcrumb: React.FC<NoteBreadcrumbProps> = ({
   currentNote,
   notes,
+  folders,
   onNavigate,
   onNavigateToAllNotes,
+  actions,
 }) => {
-  // Get the folder/tag information for the current note
+  // All Notes, then the folders containing the note, then the note itself
   const getNotePath = (note: Note) => {
     const path = [];
     
@@ -35,15 +41,14 @@ export const NoteBreadcrumb: React.FC<NoteBreadcrumbProps> = ({
       icon: Home,
     });
 
-    // If note has tags, add the first tag as a folder
-    if (note.tags && note.tags.length > 0) {
+    getFolderPath(folders, note.folderId).forEach(folder => {
       path.push({
-        id: `folder-${note.tags[0]}`,
-        name: note.tags[0],
+        id: folder.id,
+        name: folder.name,
         type: 'folder' as const,
-        icon: FileText,
+        icon: FolderIcon,
       });
-    }
+    });
 
     // Add the current note as the final item
     path.push({
@@ -58,7 +63,7 @@ export const NoteBreadcrumb: React.FC<NoteBreadcrumbProps> = ({
 
   if (!currentNote) {
     return (
-      <div style={{ padding: '12px 24px', borderBottom: '1px solid #e5e7eb', backgroundColor: 'white' }}>
+      <div style={{ padding: '12px 24px', borderBottom: '1px solid #e5e7eb', backgroundColor: 'white', display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
         <Breadcrumb>
           <BreadcrumbList style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'nowrap' }}>
             <BreadcrumbItem>
@@ -80,7 +85,7 @@ export const NoteBreadcrumb: React.FC<NoteBreadcrumbProps> = ({
   const path = getNotePath(currentNote);
 
   return (
-    <div style={{ padding: '12px 24px', borderBottom: '1px solid #e5e7eb', backgroundColor: 'white' }}>
+    <div style={{ padding: '12px 24px', borderBottom: '1px solid #e5e7eb', backgroundColor: 'white', display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
       <Breadcrumb>
         <BreadcrumbList style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'nowrap' }}>
           {path.map((item, index) => {
@@ -122,6 +127,7 @@ export const NoteBreadcrumb: React.FC<NoteBreadcrumbProps> = ({
           })}
         </BreadcrumbList>
       </Breadcrumb>
+      {actions && <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>{actions}</div>}
     </div>
   );
 };
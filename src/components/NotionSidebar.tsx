@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   ChevronRight,
@@ -17,7 +17,24 @@ import {
   MoreHorizontal,
   Edit,
   Trash2,
+  FolderPlus,
+  FolderInput,
+  Copy,
+  Download,
+  RotateCcw,
+  GitMerge,
+  CheckSquare,
+  Flag,
 } from "lucide-react";
+import { ExportFormat, Folder as FolderRecord, NoteMetadata } from "../types";
+import { FolderDeleteMode } from "../lib/folders";
+import { isActive, isArchived, isTrashed } from "../lib/notes";
+import { FavoriteItem, getFavorites } from "../lib/favorites";
+import { TagSummary, getTagSummaries } from "../lib/tags";
+import { SearchResult } from "../lib/search";
+import { NoteAccess, lastAccessedAt } from "../lib/recent";
+import { TaskEntry, TaskGrouping, groupTasks, toDateKey } from "../lib/tasks";
+import { blockToPlainText } from "../lib/blocks";
 
 
 // Types
@@ -32,6 +49,7 @@ interface FolderItem {
   updatedAt?: Date;
   isDragging?: boolean;
   isDragOver?: boolean;
+  favorite?: boolean;
 }
 
 interface SidebarProps {
@@ -39,20 +57,99 @@ interface SidebarProps {
   defaultWidth?: number;
   minWidth?: number;
   maxWidth?: number;
-  notes: any[];
+  notes: NoteMetadata[];
+  folders: FolderRecord[];
   currentNoteId?: string;
   onNoteSelect: (noteId: string) => void;
   onNoteCreate: () => void;
-  onNoteDelete?: (noteId: string) => void;
-  onNoteExport?: (noteId: string) => void;
+  onNoteTrash: (noteId: string) => void;
+  onNoteRestore: (noteId: string) => void;
+  onNoteArchive: (noteId: string, archived: boolean) => void;
+  onNoteDeleteForever: (noteId: string) => void;
+  onEmptyTrash: () => void;
+  onNoteExport?: (noteId: string, format: ExportFormat) => void;
   onNoteDuplicate?: (noteId: string) => void;
   onFolderCreate?: (name: string, parentId?: string) => void;
   onFolderRename?: (folderId: string, newName: string) => void;
-  onFolderDelete?: (folderId: string) => void;
+  onFolderDelete?: (folderId: string, mode: FolderDeleteMode) => void;
   onMoveItem?: (itemId: string, newParentId?: string) => void;
+  onToggleFavorite: (item: Pick<FavoriteItem, 'kind' | 'id'>, favorite: boolean) => void;
+  onReorderFavorites: (ordered: FavoriteItem[]) => void;
+  // Renaming onto an existing tag merges the two
+  onTagRename: (from: string, to: string) => void;
+  onTagDelete: (tag: string) => void;
+  onSearch: (query: string) => SearchResult[];
+  onSearchResultOpen: (result: SearchResult) => void;
+  recent: NoteAccess[];
+  // Open todos across all notes; ticking one updates its source note
+  tasks: TaskEntry[];
+  onTaskToggle: (task: TaskEntry, checked: boolean) => void;
+  onTaskOpen: (task: TaskEntry) => void;
 }
 
 
+// Per-note actions offered from a note's context menu
+interface NoteActions {
+  onTrash: (noteId: string) => void;
+  onArchive: (noteId: string, archived: boolean) => void;
+  onDuplicate?: (noteId: string) => void;
+  onExport?: (noteId: string, format: ExportFormat) => void;
+}
+
+// Notes and folders are dragged under a type of our own, so text or files
+// dropped from elsewhere are ignored rather than moved
+const DRAG_ITEM_TYPE = 'application/x-flow-notes-item';
+
+type DraggedItem = Pick<FolderItem, 'id' | 'type' | 'name'>;
+
+const readDraggedItem = (e: React.DragEvent): DraggedItem | null => {
+  const data = e.dataTransfer.getData(DRAG_ITEM_TYPE);
+  if (!data) {
+    return null;
+  }
+  try {
+    const item = JSON.parse(data);
+    return typeof item?.id === 'string' ? item : null;
+  } catch {
+    return null;
+  }
+};
+
+const ContextMenuButton: React.FC<{
+  icon: React.ElementType;
+  label: string;
+  onClick: () => void;
+  danger?: boolean;
+}> = ({ icon: Icon, label, onClick, danger }) => (
+  <button
+    onClick={(e) => {
+      e.stopPropagation();
+      onClick();
+    }}
+    style={{
+      display: 'flex',
+      alignItems: 'center',
+      width: '100%',
+      padding: '8px 12px',
+      fontSize: '14px',
+      color: danger ? '#dc2626' : '#374151',
+      background: 'transparent',
+      border: 'none',
+      cursor: 'pointer',
+      transition: 'background-color 0.2s'
+    }}
+    onMouseEnter={(e) => {
+      e.currentTarget.style.backgroundColor = '#f3f4f6';
+    }}
+    onMouseLeave={(e) => {
+      e.currentTarget.style.backgroundColor = 'transparent';
+    }}
+  >
+    <Icon style={{ width: '16px', height: '16px', marginRight: '8px' }} />
+    {label}
+  </button>
+);
+
 // Sidebar Item Component
 interface SidebarItemProps {
   item: FolderItem;
@@ -62,8 +159,11 @@ interface SidebarItemProps {
   selectedId?: string;
   isCollapsed: boolean;
   onMoveItem?: (itemId: string, newParentId?: string) => void;
+  onFolderCreate?: (name: string, parentId?: string) => void;
   onFolderRename?: (folderId: string, newName: string) => void;
-  onFolderDelete?: (folderId: string) => void;
+  onFolderDelete?: (folderId: string, mode: FolderDeleteMode) => void;
+  noteActions?: NoteActions;
+  onToggleFavorite?: (item: Pick<FavoriteItem, 'kind' | 'id'>, favorite: boolean) => void;
 }
 
 const SidebarItem: React.FC<SidebarItemProps> = ({
@@ -74,8 +174,11 @@ const SidebarItem: React.FC<SidebarItemProps> = ({
   selectedId,
   isCollapsed,
   onMoveItem,
+  onFolderCreate,
   onFolderRename,
-  onFolderDelete
+  onFolderDelete,
+  noteActions,
+  onToggleFavorite
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editName, setEditName] = useState(item.name);
@@ -104,14 +207,48 @@ const SidebarItem: React.FC<SidebarItemProps> = ({
     setShowContextMenu(true);
   };
 
+  // Close the context menu on the next click anywhere else
+  React.useEffect(() => {
+    if (!showContextMenu) {
+      return;
+    }
+    const close = () => setShowContextMenu(false);
+    document.addEventListener('click', close);
+    return () => document.removeEventListener('click', close);
+  }, [showContextMenu]);
+
+  const handleNoteAction = (action: (noteId: string) => void) => {
+    action(item.id);
+    setShowContextMenu(false);
+  };
+
+  const favoriteButton = onToggleFavorite && (
+    <ContextMenuButton
+      icon={Star}
+      label={item.favorite ? 'Remove from Favorites' : 'Add to Favorites'}
+      onClick={() => {
+        onToggleFavorite({ kind: item.type, id: item.id }, !item.favorite);
+        setShowContextMenu(false);
+      }}
+    />
+  );
+
   const handleRename = () => {
     setIsEditing(true);
     setShowContextMenu(false);
   };
 
-  const handleDelete = () => {
+  const handleNewSubfolder = () => {
+    setShowContextMenu(false);
+    const folderName = prompt('Enter folder name:');
+    if (folderName && folderName.trim() && onFolderCreate) {
+      onFolderCreate(folderName.trim(), item.id);
+    }
+  };
+
+  const handleDelete = (mode: FolderDeleteMode) => {
     if (item.type === 'folder' && onFolderDelete) {
-      onFolderDelete(item.id);
+      onFolderDelete(item.id, mode);
     }
     setShowContextMenu(false);
   };
@@ -129,11 +266,8 @@ const SidebarItem: React.FC<SidebarItemProps> = ({
   };
 
   const handleDragStart = (e: React.DragEvent) => {
-    e.dataTransfer.setData('text/plain', JSON.stringify({
-      id: item.id,
-      type: item.type,
-      name: item.name
-    }));
+    const dragged: DraggedItem = { id: item.id, type: item.type, name: item.name };
+    e.dataTransfer.setData(DRAG_ITEM_TYPE, JSON.stringify(dragged));
     e.dataTransfer.effectAllowed = 'move';
   };
 
@@ -144,7 +278,11 @@ const SidebarItem: React.FC<SidebarItemProps> = ({
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
-    const data = JSON.parse(e.dataTransfer.getData('text/plain'));
+    const data = readDraggedItem(e);
+    if (!data) {
+      return;
+    }
+    e.stopPropagation();
     if (data.id !== item.id && item.type === 'folder' && onMoveItem) {
       onMoveItem(data.id, item.id);
     }
@@ -174,7 +312,8 @@ const SidebarItem: React.FC<SidebarItemProps> = ({
           margin: '1px 0',
           backgroundColor: isSelected ? '#f3f4f6' : 'transparent',
           paddingLeft: isCollapsed ? '6px' : `${6 + level * 14}px`,
-          transition: 'background-color 0.2s'
+          transition: 'background-color 0.2s',
+          position: 'relative'
         }}
         onClick={handleClick}
         onContextMenu={handleContextMenu}
@@ -280,6 +419,7 @@ const SidebarItem: React.FC<SidebarItemProps> = ({
           <div style={{
             position: 'absolute',
             right: '0',
+            top: '100%',
             marginTop: '4px',
             width: '192px',
             backgroundColor: 'white',
@@ -288,54 +428,30 @@ const SidebarItem: React.FC<SidebarItemProps> = ({
             zIndex: 10,
             border: '1px solid #e5e7eb'
           }}>
-            <button
-              onClick={handleRename}
-              style={{
-                display: 'flex',
-                alignItems: 'center',
-                width: '100%',
-                padding: '8px 12px',
-                fontSize: '14px',
-                color: '#374151',
-                background: 'transparent',
-                border: 'none',
-                cursor: 'pointer',
-                transition: 'background-color 0.2s'
-              }}
-              onMouseEnter={(e) => {
-                e.currentTarget.style.backgroundColor = '#f3f4f6';
-              }}
-              onMouseLeave={(e) => {
-                e.currentTarget.style.backgroundColor = 'transparent';
-              }}
-            >
-              <Edit style={{ width: '16px', height: '16px', marginRight: '8px' }} />
-              Rename
-            </button>
-            <button
-              onClick={handleDelete}
-              style={{
-                display: 'flex',
-                alignItems: 'center',
-                width: '100%',
-                padding: '8px 12px',
-                fontSize: '14px',
-                color: '#dc2626',
-                background: 'transparent',
-                border: 'none',
-                cursor: 'pointer',
-                transition: 'background-color 0.2s'
-              }}
-              onMouseEnter={(e) => {
-                e.currentTarget.style.backgroundColor = '#f3f4f6';
-              }}
-              onMouseLeave={(e) => {
-                e.currentTarget.style.backgroundColor = 'transparent';
-              }}
-            >
-              <Trash2 style={{ width: '16px', height: '16px', marginRight: '8px' }} />
-              Delete
-            </button>
+            {item.type === 'folder' ? (
+              <>
+                {favoriteButton}
+                <ContextMenuButton icon={Edit} label="Rename" onClick={handleRename} />
+                <ContextMenuButton icon={FolderPlus} label="New folder" onClick={handleNewSubfolder} />
+                <ContextMenuButton icon={FolderInput} label="Delete, keep contents" onClick={() => handleDelete('moveContentsUp')} />
+                <ContextMenuButton icon={Trash2} label="Delete with contents" onClick={() => handleDelete('withContents')} danger />
+              </>
+            ) : noteActions && (
+              <>
+                {favoriteButton}
+                {noteActions.onDuplicate && (
+                  <ContextMenuButton icon={Copy} label="Duplicate" onClick={() => handleNoteAction(noteActions.onDuplicate!)} />
+                )}
+                {noteActions.onExport && (
+                  <>
+                    <ContextMenuButton icon={Download} label="Export as Markdown" onClick={() => handleNoteAction(id => noteActions.onExport!(id, 'markdown'))} />
+                    <ContextMenuButton icon={Download} label="Export as HTML" onClick={() => handleNoteAction(id => noteActions.onExport!(id, 'html'))} />
+                  </>
+                )}
+                <ContextMenuButton icon={Archive} label="Archive" onClick={() => handleNoteAction(id => noteActions.onArchive(id, true))} />
+                <ContextMenuButton icon={Trash2} label="Move to Trash" onClick={() => handleNoteAction(noteActions.onTrash)} danger />
+              </>
+            )}
           </div>
         )}
       </div>
@@ -359,8 +475,11 @@ const SidebarItem: React.FC<SidebarItemProps> = ({
                 selectedId={selectedId}
                 isCollapsed={isCollapsed}
                 onMoveItem={onMoveItem}
+                onFolderCreate={onFolderCreate}
                 onFolderRename={onFolderRename}
                 onFolderDelete={onFolderDelete}
+                noteActions={noteActions}
+                onToggleFavorite={onToggleFavorite}
               />
             ))}
           </motion.div>
@@ -371,71 +490,435 @@ const SidebarItem: React.FC<SidebarItemProps> = ({
 };
 
 
+// Sidebar views selectable from the quick links
+type SidebarView = 'all' | 'recent' | 'favorites' | 'tags' | 'tasks' | 'archive' | 'trash';
+const SIDEBAR_VIEWS: SidebarView[] = ['all', 'recent', 'favorites', 'tags', 'tasks', 'archive', 'trash'];
+
+const PRIORITY_COLORS = { high: '#dc2626', medium: '#d97706', low: '#2563eb' };
+
+const describeAccess = (access: NoteAccess) => {
+  const edited = access.editedAt && access.editedAt === lastAccessedAt(access);
+  const time = new Date(lastAccessedAt(access)).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+  return `${edited ? 'Edited' : 'Opened'} ${time}`;
+};
+
+const SectionHeader: React.FC<React.HTMLAttributes<HTMLDivElement>> = ({ children, ...props }) => (
+  <div
+    style={{ 
+      display: 'flex',
+      alignItems: 'center',
+      fontSize: '10px', 
+      fontWeight: '600', 
+      color: '#6b7280', 
+      marginBottom: '6px',
+      textTransform: 'uppercase',
+      letterSpacing: '0.05em'
+    }}
+    {...props}
+  >
+    {children}
+  </div>
+);
+
+const EmptyState: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <div style={{ padding: '8px 6px', fontSize: '12px', color: '#9ca3af' }}>{children}</div>
+);
+
+// Flat note row used by the filtered views (Archive, Trash, ...)
+interface NoteListItemProps {
+  note: NoteMetadata;
+  isSelected: boolean;
+  onSelect: (noteId: string) => void;
+  subtitle?: string;
+  actions?: { icon: React.ElementType; label: string; onClick: () => void }[];
+}
+
+const NoteListItem: React.FC<NoteListItemProps> = ({ note, isSelected, onSelect, subtitle, actions = [] }) => (
+  <div
+    onClick={() => onSelect(note.id)}
+    style={{
+      display: 'flex',
+      alignItems: 'center',
+      padding: '4px 6px',
+      margin: '1px 0',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      backgroundColor: isSelected ? '#f3f4f6' : 'transparent'
+    }}
+  >
+    <FileText style={{ width: '14px', height: '14px', color: '#6b7280', marginRight: '8px', flexShrink: 0 }} />
+    <div style={{ flex: 1, minWidth: 0 }}>
+      <div style={{ fontSize: '13px', color: '#374151', fontWeight: '500', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+        {note.title || 'Untitled'}
+      </div>
+      {subtitle && <div style={{ fontSize: '11px', color: '#9ca3af' }}>{subtitle}</div>}
+    </div>
+    {actions.map(({ icon: Icon, label, onClick }) => (
+      <button
+        key={label}
+        title={label}
+        onClick={(e) => {
+          e.stopPropagation();
+          onClick();
+        }}
+        style={{ padding: '4px', border: 'none', background: 'transparent', cursor: 'pointer', color: '#6b7280' }}
+      >
+        <Icon style={{ width: '12px', height: '12px' }} />
+      </button>
+    ))}
+  </div>
+);
+
+// Snippet text with the matched ranges wrapped in <mark>
+const HighlightedText: React.FC<{ text: string; highlights: [number, number][] }> = ({ text, highlights }) => {
+  const pieces: React.ReactNode[] = [];
+  let position = 0;
+  highlights.forEach(([start, end]) => {
+    if (start < position) {
+      return;
+    }
+    pieces.push(text.slice(position, start));
+    pieces.push(
+      <mark key={start} style={{ backgroundColor: '#fef08a', color: 'inherit', borderRadius: '2px' }}>
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  pieces.push(text.slice(position));
+  return <>{pieces}</>;
+};
+
+const SearchResultItem: React.FC<{
+  result: SearchResult;
+  isSelected: boolean;
+  onOpen: (result: SearchResult) => void;
+}> = ({ result, isSelected, onOpen }) => (
+  <div
+    onClick={() => onOpen(result)}
+    style={{
+      padding: '6px',
+      margin: '1px 0',
+      borderRadius: '4px',
+      cursor: 'pointer',
+      backgroundColor: isSelected ? '#f3f4f6' : 'transparent'
+    }}
+  >
+    <div style={{ display: 'flex', alignItems: 'center', fontSize: '13px', color: '#374151', fontWeight: '500' }}>
+      <FileText style={{ width: '14px', height: '14px', color: '#6b7280', marginRight: '8px', flexShrink: 0 }} />
+      <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{result.title || 'Untitled'}</span>
+    </div>
+    <div style={{ marginTop: '2px', paddingLeft: '22px', fontSize: '12px', color: '#6b7280', lineHeight: '1.4' }}>
+      <HighlightedText text={result.snippet} highlights={result.highlights} />
+    </div>
+  </div>
+);
+
+// An open todo; the subtitle names its note, or its due date when grouped by note
+interface TaskListItemProps {
+  task: TaskEntry;
+  grouping: TaskGrouping;
+  today: string;
+  onToggle: (task: TaskEntry, checked: boolean) => void;
+  onOpen: (task: TaskEntry) => void;
+}
+
+const TaskListItem: React.FC<TaskListItemProps> = ({ task, grouping, today, onToggle, onOpen }) => {
+  const { dueDate, priority } = task.block;
+  const isOverdue = Boolean(dueDate && dueDate < today);
+  const subtitle = grouping === 'dueDate'
+    ? task.noteTitle || 'Untitled'
+    : dueDate && new Date(`${dueDate}T00:00`).toLocaleDateString(undefined, { dateStyle: 'medium' });
+
+  return (
+    <div
+      onClick={() => onOpen(task)}
+      style={{ display: 'flex', alignItems: 'flex-start', padding: '4px 6px', margin: '1px 0', borderRadius: '4px', cursor: 'pointer' }}
+    >
+      <input
+        type="checkbox"
+        checked={false}
+        onClick={(e) => e.stopPropagation()}
+        onChange={(e) => onToggle(task, e.target.checked)}
+        style={{ marginRight: '8px', marginTop: '2px', flexShrink: 0, cursor: 'pointer' }}
+      />
+      <div style={{ flex: 1, minWidth: 0 }}>
+        <div style={{ fontSize: '13px', color: '#374151', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {blockToPlainText(task.block) || 'Untitled task'}
+        </div>
+        {subtitle && (
+          <div style={{ fontSize: '11px', color: isOverdue && grouping === 'note' ? '#dc2626' : '#9ca3af' }}>{subtitle}</div>
+        )}
+      </div>
+      {priority && (
+        <span title={`${priority[0].toUpperCase()}${priority.slice(1)} priority`}>
+          <Flag style={{ width: '12px', height: '12px', marginTop: '2px', color: PRIORITY_COLORS[priority] }} />
+        </span>
+      )}
+    </div>
+  );
+};
+
+// A tag with its note count; expands to the notes carrying it
+interface TagListItemProps {
+  tag: TagSummary;
+  otherTags: string[];
+  isExpanded: boolean;
+  currentNoteId?: string;
+  onToggle: (tag: string) => void;
+  onNoteSelect: (noteId: string) => void;
+  onRename: (from: string, to: string) => void;
+  onDelete: (tag: string) => void;
+}
+
+const TagListItem: React.FC<TagListItemProps> = ({
+  tag,
+  otherTags,
+  isExpanded,
+  currentNoteId,
+  onToggle,
+  onNoteSelect,
+  onRename,
+  onDelete,
+}) => {
+  const handleRename = () => {
+    const name = prompt('Rename tag:', tag.name);
+    if (name && name.trim()) {
+      onRename(tag.name, name);
+    }
+  };
+
+  const handleMerge = () => {
+    const name = prompt(`Merge #${tag.name} into:\n${otherTags.map(t => `#${t}`).join(' ')}`);
+    if (name && name.trim()) {
+      onRename(tag.name, name);
+    }
+  };
+
+  const actions = [
+    { icon: Edit, label: 'Rename', onClick: handleRename },
+    { icon: GitMerge, label: 'Merge into…', onClick: handleMerge },
+    { icon: Trash2, label: 'Delete tag', onClick: () => onDelete(tag.name) },
+  ];
+
+  return (
+    <div>
+      <div
+        onClick={() => onToggle(tag.name)}
+        style={{ display: 'flex', alignItems: 'center', padding: '4px 6px', margin: '1px 0', borderRadius: '4px', cursor: 'pointer' }}
+      >
+        <ChevronRight style={{
+          width: '12px',
+          height: '12px',
+          color: '#6b7280',
+          marginRight: '4px',
+          transform: isExpanded ? 'rotate(90deg)' : 'none',
+          transition: 'transform 0.2s'
+        }} />
+        <Hash style={{ width: '14px', height: '14px', color: '#6b7280', marginRight: '6px' }} />
+        <span style={{ flex: 1, fontSize: '13px', color: '#374151', fontWeight: '500', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {tag.name}
+        </span>
+        {actions.map(({ icon: Icon, label, onClick }) => (
+          <button
+            key={label}
+            title={label}
+            onClick={(e) => {
+              e.stopPropagation();
+              onClick();
+            }}
+            style={{ padding: '4px', border: 'none', background: 'transparent', cursor: 'pointer', color: '#9ca3af' }}
+          >
+            <Icon style={{ width: '12px', height: '12px' }} />
+          </button>
+        ))}
+        <span style={{ fontSize: '11px', color: '#9ca3af', marginLeft: '4px' }}>{tag.notes.length}</span>
+      </div>
+      {isExpanded && (
+        <div style={{ paddingLeft: '16px' }}>
+          {tag.notes.map(note => (
+            <NoteListItem
+              key={note.id}
+              note={note}
+              isSelected={note.id === currentNoteId}
+              onSelect={onNoteSelect}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
 // Main Sidebar Component
 export const NotionSidebar: React.FC<SidebarProps> = ({
   notes,
+  folders,
   currentNoteId,
   onNoteSelect,
   onNoteCreate,
+  onNoteTrash,
+  onNoteRestore,
+  onNoteArchive,
+  onNoteDeleteForever,
+  onEmptyTrash,
+  onNoteExport,
+  onNoteDuplicate,
   onFolderCreate,
   onFolderRename,
   onFolderDelete,
   onMoveItem,
+  onToggleFavorite,
+  onReorderFavorites,
+  onTagRename,
+  onTagDelete,
+  onSearch,
+  onSearchResultOpen,
+  recent,
+  tasks,
+  onTaskToggle,
+  onTaskOpen,
 }) => {
-  // Create folder structure from actual notes and folders
-  const createFolderStructure = (notes: any[]): FolderItem[] => {
-    // For now, create a simple structure with default folders
-    // In a real implementation, this would come from the backend
-    const defaultFolders: FolderItem[] = [
-      {
-        id: 'all-notes',
-        name: 'All Notes',
-        type: 'folder',
-        isExpanded: true,
-        children: notes.map(note => ({
+  // Expansion is UI state only, so it is kept here and survives data refreshes
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [searchQuery, setSearchQuery] = useState('');
+  const [activeView, setActiveView] = useState<SidebarView>('all');
+
+  const noteActions: NoteActions = {
+    onTrash: onNoteTrash,
+    onArchive: onNoteArchive,
+    onDuplicate: onNoteDuplicate,
+    onExport: onNoteExport,
+  };
+
+  const favorites = useMemo(() => getFavorites(notes, folders), [notes, folders]);
+  const [draggedFavoriteId, setDraggedFavoriteId] = useState<string | null>(null);
+
+  const handleFavoriteDrop = (targetId: string) => {
+    if (!draggedFavoriteId || draggedFavoriteId === targetId) {
+      return;
+    }
+    // The dragged item takes the target's slot, shifting the rest over
+    const ordered = [...favorites];
+    const from = ordered.findIndex(f => f.id === draggedFavoriteId);
+    const to = ordered.findIndex(f => f.id === targetId);
+    const [dragged] = ordered.splice(from, 1);
+    ordered.splice(to, 0, dragged);
+    setDraggedFavoriteId(null);
+    onReorderFavorites(ordered);
+  };
+
+  const openFavorite = (favorite: FavoriteItem) => {
+    if (favorite.kind === 'note') {
+      onNoteSelect(favorite.id);
+      return;
+    }
+    // Reveal the folder in the tree
+    setActiveView('all');
+    setExpandedIds(prev => new Set(prev).add(favorite.id));
+  };
+
+  // The index updates on every save, which also refreshes `notes`
+  const isSearching = searchQuery.trim() !== '';
+  const searchResults = useMemo(
+    () => (isSearching ? onSearch(searchQuery) : []),
+    [searchQuery, notes, onSearch],
+  );
+
+  const tags = useMemo(() => getTagSummaries(notes), [notes]);
+  const [expandedTags, setExpandedTags] = useState<Set<string>>(new Set());
+
+  const toggleTag = (tag: string) => {
+    setExpandedTags(prev => {
+      const next = new Set(prev);
+      if (next.has(tag)) {
+        next.delete(tag);
+      } else {
+        next.add(tag);
+      }
+      return next;
+    });
+  };
+
+  const recentNotes = useMemo(() => {
+    const byId = new Map(notes.filter(isActive).map(note => [note.id, note]));
+    return recent
+      .filter(access => byId.has(access.noteId))
+      .map(access => ({ note: byId.get(access.noteId)!, access }));
+  }, [notes, recent]);
+
+  const [taskGrouping, setTaskGrouping] = useState<TaskGrouping>('dueDate');
+  const today = toDateKey(new Date());
+  const taskGroups = useMemo(() => {
+    const activeIds = new Set(notes.filter(isActive).map(note => note.id));
+    return groupTasks(tasks.filter(task => activeIds.has(task.noteId)), taskGrouping);
+  }, [notes, tasks, taskGrouping, today]);
+
+  const archivedNotes = useMemo(() => notes.filter(isArchived), [notes]);
+  const trashedNotes = useMemo(
+    () => notes.filter(isTrashed).sort((a, b) => b.trashedAt!.localeCompare(a.trashedAt!)),
+    [notes],
+  );
+
+  // Build the folder tree from persisted folders, placing notes by folderId.
+  // Notes whose folder no longer exists fall back to the root.
+  const items = useMemo(() => {
+    const folderIds = new Set(folders.map(folder => folder.id));
+
+    const noteItems = (folderId?: string): FolderItem[] =>
+      notes
+        .filter(isActive)
+        .filter(note => (note.folderId && folderIds.has(note.folderId) ? note.folderId : undefined) === folderId)
+        .map(note => ({
           id: note.id,
           name: note.title,
           type: 'note',
-          parentId: 'all-notes',
+          parentId: note.folderId,
+          favorite: note.favorite,
           createdAt: new Date(note.createdAt),
           updatedAt: new Date(note.updatedAt)
-        }))
-      },
-      {
-        id: 'my-folders',
-        name: 'My Folders',
-        type: 'folder',
-        isExpanded: true,
-        children: []
-      }
-    ];
+        }));
 
-    return defaultFolders;
-  };
+    const folderItems = (parentId?: string): FolderItem[] =>
+      folders
+        .filter(folder => (folder.parentId && folderIds.has(folder.parentId) ? folder.parentId : undefined) === parentId)
+        .map(folder => ({
+          id: folder.id,
+          name: folder.name,
+          type: 'folder',
+          parentId: folder.parentId,
+          isExpanded: expandedIds.has(folder.id),
+          favorite: folder.favorite,
+          createdAt: new Date(folder.createdAt),
+          updatedAt: new Date(folder.updatedAt),
+          children: [...folderItems(folder.id), ...noteItems(folder.id)]
+        }));
 
-  const [items, setItems] = useState<FolderItem[]>([]);
-  const [searchQuery, setSearchQuery] = useState('');
+    return [...folderItems(undefined), ...noteItems(undefined)];
+  }, [notes, folders, expandedIds]);
 
-  // Update folder structure when notes change
-  React.useEffect(() => {
-    const folderStructure = createFolderStructure(notes);
-    setItems(folderStructure);
-  }, [notes]);
+  // Favorites pinned above the tree, reusing the tree's items (and subtrees)
+  const pinnedItems = useMemo(() => {
+    const byId = new Map<string, FolderItem>();
+    const collect = (list: FolderItem[]) => list.forEach(item => {
+      byId.set(item.id, item);
+      collect(item.children ?? []);
+    });
+    collect(items);
+    return favorites.map(favorite => byId.get(favorite.id)).filter((item): item is FolderItem => Boolean(item));
+  }, [items, favorites]);
 
   // Toggle folder expansion
   const toggleFolder = (id: string) => {
-    const updateItems = (items: FolderItem[]): FolderItem[] => {
-      return items.map(item => {
-        if (item.id === id) {
-          return { ...item, isExpanded: !item.isExpanded };
-        }
-        if (item.children) {
-          return { ...item, children: updateItems(item.children) };
-        }
-        return item;
-      });
-    };
-    setItems(updateItems(items));
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
   };
 
   // Handle item selection
@@ -453,123 +936,17 @@ export const NotionSidebar: React.FC<SidebarProps> = ({
   // Handle new folder creation
   const handleNewFolder = () => {
     const folderName = prompt('Enter folder name:');
-    if (folderName && folderName.trim()) {
-      // Create new folder locally
-      const newFolder: FolderItem = {
-        id: `folder-${Date.now()}`,
-        name: folderName.trim(),
-        type: 'folder',
-        isExpanded: false,
-        children: [],
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
-
-      // Add to "My Folders" section
-      setItems(prevItems => {
-        return prevItems.map(item => {
-          if (item.id === 'my-folders') {
-            return {
-              ...item,
-              children: [...(item.children || []), newFolder]
-            };
-          }
-          return item;
-        });
-      });
-
-      // Call the parent handler if provided
-      if (onFolderCreate) {
-        onFolderCreate(folderName.trim());
-      }
-    }
-  };
-
-  // Handle folder rename
-  const handleFolderRename = (folderId: string, newName: string) => {
-    // Update folder name locally
-    setItems(prevItems => {
-      const updateItems = (items: FolderItem[]): FolderItem[] => {
-        return items.map(item => {
-          if (item.id === folderId) {
-            return { ...item, name: newName, updatedAt: new Date() };
-          }
-          if (item.children) {
-            return { ...item, children: updateItems(item.children) };
-          }
-          return item;
-        });
-      };
-      return updateItems(prevItems);
-    });
-
-    // Call the parent handler if provided
-    if (onFolderRename) {
-      onFolderRename(folderId, newName);
-    }
-  };
-
-  // Handle folder delete
-  const handleFolderDelete = (folderId: string) => {
-    // Remove folder locally
-    setItems(prevItems => {
-      const updateItems = (items: FolderItem[]): FolderItem[] => {
-        return items.map(item => {
-          if (item.children) {
-            return { ...item, children: updateItems(item.children) };
-          }
-          return item;
-        }).filter(item => item.id !== folderId);
-      };
-      return updateItems(prevItems);
-    });
-
-    // Call the parent handler if provided
-    if (onFolderDelete) {
-      onFolderDelete(folderId);
+    if (folderName && folderName.trim() && onFolderCreate) {
+      onFolderCreate(folderName.trim());
     }
   };
 
-  // Handle move item
-  const handleMoveItem = (itemId: string, newParentId?: string) => {
-    // Move item locally
-    setItems(prevItems => {
-      let itemToMove: FolderItem | null = null;
-      
-      // Find and remove the item from its current location
-      const removeItem = (items: FolderItem[]): FolderItem[] => {
-        return items.map(item => {
-          if (item.id === itemId) {
-            itemToMove = { ...item, parentId: newParentId };
-            return null; // Mark for removal
-          }
-          if (item.children) {
-            return { ...item, children: removeItem(item.children) };
-          }
-          return item;
-        }).filter(item => item !== null) as FolderItem[];
-      };
-
-      // Add the item to its new location
-      const addItem = (items: FolderItem[]): FolderItem[] => {
-        return items.map(item => {
-          if (item.id === newParentId && itemToMove) {
-            return { ...item, children: [...(item.children || []), itemToMove] };
-          }
-          if (item.children) {
-            return { ...item, children: addItem(item.children) };
-          }
-          return item;
-        });
-      };
-
-      const itemsWithoutItem = removeItem(prevItems);
-      return addItem(itemsWithoutItem);
-    });
-
-    // Call the parent handler if provided
-    if (onMoveItem) {
-      onMoveItem(itemId, newParentId);
+  // Dropping onto the section header moves an item back to the root
+  const handleRootDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const data = readDraggedItem(e);
+    if (data && onMoveItem) {
+      onMoveItem(data.id, undefined);
     }
   };
 
@@ -610,6 +987,13 @@ export const NotionSidebar: React.FC<SidebarProps> = ({
             placeholder="Search notes..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') {
+                setSearchQuery('');
+              } else if (e.key === 'Enter' && searchResults.length > 0) {
+                onSearchResultOpen(searchResults[0]);
+              }
+            }}
             style={{
               width: 'calc(100% - 40px)',
               padding: '6px 6px 6px 32px',
@@ -670,16 +1054,20 @@ export const NotionSidebar: React.FC<SidebarProps> = ({
           { id: 'recent', name: 'Recent', icon: Clock },
           { id: 'favorites', name: 'Favorites', icon: Star },
           { id: 'tags', name: 'Tags', icon: Hash },
+          { id: 'tasks', name: 'Tasks', icon: CheckSquare },
           { id: 'archive', name: 'Archive', icon: Archive },
+          { id: 'trash', name: 'Trash', icon: Trash2 },
         ].map((item) => {
           const Icon = item.icon;
-          const isActive = item.id === 'all'; // Default to 'All Notes' being active
+          const isCurrent = item.id === activeView;
+          const isView = SIDEBAR_VIEWS.includes(item.id as SidebarView);
           return (
             <button
               key={item.id}
               onClick={() => {
-                // Handle navigation item click
-                console.log(`Navigating to ${item.name}`);
+                if (isView) {
+                  setActiveView(item.id as SidebarView);
+                }
               }}
               style={{
                 width: '100%',
@@ -687,8 +1075,8 @@ export const NotionSidebar: React.FC<SidebarProps> = ({
                 alignItems: 'center',
                 gap: '10px',
                 padding: '6px 12px',
-                backgroundColor: isActive ? '#f3f4f6' : 'transparent',
-                color: isActive ? '#111827' : '#6b7280',
+                backgroundColor: isCurrent ? '#f3f4f6' : 'transparent',
+                color: isCurrent ? '#111827' : '#6b7280',
                 border: 'none',
                 cursor: 'pointer',
                 fontSize: '13px',
@@ -697,39 +1085,249 @@ export const NotionSidebar: React.FC<SidebarProps> = ({
             >
               <Icon style={{ width: '14px', height: '14px' }} />
               <span>{item.name}</span>
+              {item.id === 'trash' && trashedNotes.length > 0 && (
+                <span style={{ marginLeft: 'auto', fontSize: '11px', color: '#9ca3af' }}>{trashedNotes.length}</span>
+              )}
             </button>
           );
         })}
       </div>
 
-      {/* Folders Section */}
       <div style={{ flex: 1, overflowY: 'auto', padding: '4px 0' }}>
         <div style={{ padding: '0 12px' }}>
-          <div style={{ 
-            fontSize: '10px', 
-            fontWeight: '600', 
-            color: '#6b7280', 
-            marginBottom: '6px',
-            textTransform: 'uppercase',
-            letterSpacing: '0.05em'
-          }}>
-            FOLDERS
-          </div>
-          
-          {items.map((item) => (
-            <SidebarItem
-              key={item.id}
-              item={item}
-              level={0}
-              onToggle={toggleFolder}
-              onSelect={handleItemSelect}
-              selectedId={currentNoteId}
-              isCollapsed={false}
-              onMoveItem={handleMoveItem}
-              onFolderRename={handleFolderRename}
-              onFolderDelete={handleFolderDelete}
-            />
-          ))}
+          {isSearching && (
+            <>
+              <SectionHeader>RESULTS</SectionHeader>
+              {searchResults.length === 0 && <EmptyState>No notes match "{searchQuery.trim()}".</EmptyState>}
+              {searchResults.map(result => (
+                <SearchResultItem
+                  key={result.noteId}
+                  result={result}
+                  isSelected={result.noteId === currentNoteId}
+                  onOpen={onSearchResultOpen}
+                />
+              ))}
+            </>
+          )}
+
+          {!isSearching && activeView === 'all' && (
+            <>
+              {pinnedItems.length > 0 && (
+                <div style={{ marginBottom: '12px' }}>
+                  <SectionHeader>PINNED</SectionHeader>
+                  {pinnedItems.map((item) => (
+                    <SidebarItem
+                      key={item.id}
+                      item={item}
+                      level={0}
+                      onToggle={toggleFolder}
+                      onSelect={handleItemSelect}
+                      selectedId={currentNoteId}
+                      isCollapsed={false}
+                      noteActions={noteActions}
+                      onToggleFavorite={onToggleFavorite}
+                    />
+                  ))}
+                </div>
+              )}
+
+              {/* Folders Section */}
+              <SectionHeader
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={handleRootDrop}
+              >
+                FOLDERS
+              </SectionHeader>
+
+              {items.map((item) => (
+                <SidebarItem
+                  key={item.id}
+                  item={item}
+                  level={0}
+                  onToggle={toggleFolder}
+                  onSelect={handleItemSelect}
+                  selectedId={currentNoteId}
+                  isCollapsed={false}
+                  onMoveItem={onMoveItem}
+                  onFolderCreate={onFolderCreate}
+                  onFolderRename={onFolderRename}
+                  onFolderDelete={onFolderDelete}
+                  noteActions={noteActions}
+                  onToggleFavorite={onToggleFavorite}
+                />
+              ))}
+            </>
+          )}
+
+          {!isSearching && activeView === 'recent' && (
+            <>
+              <SectionHeader>RECENT</SectionHeader>
+              {recentNotes.length === 0 && <EmptyState>Notes you open or edit show up here.</EmptyState>}
+              {recentNotes.map(({ note, access }) => (
+                <NoteListItem
+                  key={note.id}
+                  note={note}
+                  isSelected={note.id === currentNoteId}
+                  onSelect={onNoteSelect}
+                  subtitle={describeAccess(access)}
+                />
+              ))}
+            </>
+          )}
+
+          {!isSearching && activeView === 'favorites' && (
+            <>
+              <SectionHeader>FAVORITES</SectionHeader>
+              {favorites.length === 0 && <EmptyState>Star a note or folder to keep it here.</EmptyState>}
+              {favorites.map(favorite => (
+                <div
+                  key={favorite.id}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDraggedFavoriteId(favorite.id);
+                  }}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleFavoriteDrop(favorite.id);
+                  }}
+                  onDragEnd={() => setDraggedFavoriteId(null)}
+                  style={{ opacity: draggedFavoriteId === favorite.id ? 0.5 : 1 }}
+                >
+                  {favorite.kind === 'note' ? (
+                    <NoteListItem
+                      note={notes.find(note => note.id === favorite.id)!}
+                      isSelected={favorite.id === currentNoteId}
+                      onSelect={() => openFavorite(favorite)}
+                      actions={[
+                        { icon: Star, label: 'Remove from Favorites', onClick: () => onToggleFavorite(favorite, false) },
+                      ]}
+                    />
+                  ) : (
+                    <div
+                      onClick={() => openFavorite(favorite)}
+                      style={{ display: 'flex', alignItems: 'center', padding: '4px 6px', margin: '1px 0', borderRadius: '4px', cursor: 'pointer' }}
+                    >
+                      <Folder style={{ width: '14px', height: '14px', color: '#3b82f6', marginRight: '8px' }} />
+                      <span style={{ flex: 1, fontSize: '13px', color: '#374151', fontWeight: '500' }}>{favorite.name}</span>
+                      <button
+                        title="Remove from Favorites"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onToggleFavorite(favorite, false);
+                        }}
+                        style={{ padding: '4px', border: 'none', background: 'transparent', cursor: 'pointer', color: '#6b7280' }}
+                      >
+                        <Star style={{ width: '12px', height: '12px' }} />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </>
+          )}
+
+          {!isSearching && activeView === 'tags' && (
+            <>
+              <SectionHeader>TAGS</SectionHeader>
+              {tags.length === 0 && <EmptyState>Add tags to a note, or type #tag in its text.</EmptyState>}
+              {tags.map(tag => (
+                <TagListItem
+                  key={tag.name}
+                  tag={tag}
+                  otherTags={tags.map(t => t.name).filter(name => name !== tag.name)}
+                  isExpanded={expandedTags.has(tag.name)}
+                  currentNoteId={currentNoteId}
+                  onToggle={toggleTag}
+                  onNoteSelect={onNoteSelect}
+                  onRename={onTagRename}
+                  onDelete={onTagDelete}
+                />
+              ))}
+            </>
+          )}
+
+          {!isSearching && activeView === 'tasks' && (
+            <>
+              <SectionHeader>
+                TASKS
+                <button
+                  onClick={() => setTaskGrouping(taskGrouping === 'dueDate' ? 'note' : 'dueDate')}
+                  style={{ marginLeft: 'auto', border: 'none', background: 'transparent', color: '#6b7280', cursor: 'pointer', fontSize: '10px', fontWeight: '600', letterSpacing: '0.05em' }}
+                >
+                  {taskGrouping === 'dueDate' ? 'BY DUE DATE' : 'BY NOTE'}
+                </button>
+              </SectionHeader>
+              {taskGroups.length === 0 && <EmptyState>Open to-dos from all your notes show up here.</EmptyState>}
+              {taskGroups.map(group => (
+                <div key={group.key} style={{ marginBottom: '8px' }}>
+                  <div style={{ padding: '2px 6px', fontSize: '11px', fontWeight: '600', color: group.key === 'overdue' ? '#dc2626' : '#6b7280' }}>
+                    {group.label} <span style={{ fontWeight: '400', color: '#9ca3af' }}>{group.tasks.length}</span>
+                  </div>
+                  {group.tasks.map(task => (
+                    <TaskListItem
+                      key={`${task.noteId}:${task.block.id}`}
+                      task={task}
+                      grouping={taskGrouping}
+                      today={today}
+                      onToggle={onTaskToggle}
+                      onOpen={onTaskOpen}
+                    />
+                  ))}
+                </div>
+              ))}
+            </>
+          )}
+
+          {!isSearching && activeView === 'archive' && (
+            <>
+              <SectionHeader>ARCHIVE</SectionHeader>
+              {archivedNotes.length === 0 && <EmptyState>Archived notes show up here.</EmptyState>}
+              {archivedNotes.map(note => (
+                <NoteListItem
+                  key={note.id}
+                  note={note}
+                  isSelected={note.id === currentNoteId}
+                  onSelect={onNoteSelect}
+                  actions={[
+                    { icon: RotateCcw, label: 'Unarchive', onClick: () => onNoteArchive(note.id, false) },
+                    { icon: Trash2, label: 'Move to Trash', onClick: () => onNoteTrash(note.id) },
+                  ]}
+                />
+              ))}
+            </>
+          )}
+
+          {!isSearching && activeView === 'trash' && (
+            <>
+              <SectionHeader>
+                TRASH
+                {trashedNotes.length > 0 && (
+                  <button
+                    onClick={onEmptyTrash}
+                    style={{ marginLeft: 'auto', border: 'none', background: 'transparent', color: '#dc2626', cursor: 'pointer', fontSize: '10px', fontWeight: '600', letterSpacing: '0.05em' }}
+                  >
+                    EMPTY TRASH
+                  </button>
+                )}
+              </SectionHeader>
+              {trashedNotes.length === 0 && <EmptyState>Trash is empty.</EmptyState>}
+              {trashedNotes.map(note => (
+                <NoteListItem
+                  key={note.id}
+                  note={note}
+                  isSelected={note.id === currentNoteId}
+                  onSelect={onNoteSelect}
+                  subtitle={`Deleted ${new Date(note.trashedAt!).toLocaleDateString()}`}
+                  actions={[
+                    { icon: RotateCcw, label: 'Restore', onClick: () => onNoteRestore(note.id) },
+                    { icon: Trash2, label: 'Delete forever', onClick: () => onNoteDeleteForever(note.id) },
+                  ]}
+                />
+              ))}
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { Editor, useEditorState } from '@tiptap/react';
+import { ListTree, X } from 'lucide-react';
+import { OutlineHeading, getOutline } from '../extensions/Outline';
+
+interface OutlinePanelProps {
+  editor: Editor;
+  // The note's scroll area, watched for the section in view
+  scrollRef: React.RefObject<HTMLDivElement | null>;
+  onClose: () => void;
+}
+
+// A heading counts as in view once it is this close to the top of the note
+const ACTIVE_OFFSET = 80;
+
+// Where a dragged heading's section goes: before the heading at `index`, or
+// after it, i.e. before the next one in the outline
+interface DropTarget {
+  index: number;
+  after: boolean;
+}
+
+// The note's top-level headings, indented by level. Clicking one scrolls to
+// it; dragging one moves its whole section.
+export const OutlinePanel: React.FC<OutlinePanelProps> = ({ editor, scrollRef, onClose }) => {
+  const headings = useEditorState({
+    editor,
+    selector: ({ editor }) => getOutline(editor.state.doc),
+  });
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  // The active heading is the last one scrolled past the top of the note
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container) {
+      return;
+    }
+    const update = () => {
+      const top = container.getBoundingClientRect().top + ACTIVE_OFFSET;
+      let active = headings.length > 0 ? 0 : -1;
+      headings.forEach((heading, index) => {
+        const dom = editor.view.nodeDOM(heading.pos);
+        if (dom instanceof HTMLElement && dom.getBoundingClientRect().top <= top) {
+          active = index;
+        }
+      });
+      setActiveIndex(active);
+    };
+    update();
+    container.addEventListener('scroll', update, { passive: true });
+    return () => container.removeEventListener('scroll', update);
+  }, [editor, headings, scrollRef]);
+
+  const open = (heading: OutlineHeading) => {
+    const dom = editor.view.nodeDOM(heading.pos);
+    if (dom instanceof HTMLElement) {
+      dom.scrollIntoView({ block: 'start', behavior: 'smooth' });
+    }
+    editor.commands.focus(heading.textPos, { scrollIntoView: false });
+  };
+
+  const targetPos = ({ index, after }: DropTarget) => {
+    const next = after ? headings[index + 1] : headings[index];
+    return next ? next.pos : editor.state.doc.content.size;
+  };
+
+  // Sections can't be dropped into themselves
+  const canDrop = (target: DropTarget) => {
+    if (dragIndex === null) {
+      return false;
+    }
+    const { pos, end } = headings[dragIndex];
+    const to = targetPos(target);
+    return to < pos || to > end;
+  };
+
+  const handleDragOver = (event: React.DragEvent, index: number) => {
+    if (dragIndex === null) {
+      return;
+    }
+    const rect = event.currentTarget.getBoundingClientRect();
+    const target = { index, after: event.clientY > rect.top + rect.height / 2 };
+    if (canDrop(target)) {
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'move';
+      setDropTarget(target);
+    } else {
+      setDropTarget(null);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    if (dragIndex !== null && dropTarget) {
+      editor.commands.moveSection(headings[dragIndex].pos, targetPos(dropTarget));
+    }
+    setDragIndex(null);
+    setDropTarget(null);
+  };
+
+  const dropLine = (index: number, after: boolean) =>
+    dropTarget?.index === index && dropTarget.after === after ? '2px solid #2383e2' : '2px solid transparent';
+
+  return (
+    <aside style={{
+      width: '240px',
+      borderLeft: '1px solid #e5e7eb',
+      backgroundColor: 'white',
+      display: 'flex',
+      flexDirection: 'column',
+      fontSize: '13px',
+      color: '#374151'
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '12px', borderBottom: '1px solid #e5e7eb' }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontWeight: 600 }}>
+          <ListTree style={{ width: '14px', height: '14px' }} />
+          Outline
+        </div>
+        <button
+          onClick={onClose}
+          style={{ padding: '4px', border: 'none', background: 'transparent', cursor: 'pointer' }}
+          aria-label="Close outline"
+        >
+          <X style={{ width: '14px', height: '14px' }} />
+        </button>
+      </div>
+
+      {headings.length === 0 ? (
+        <div style={{ padding: '16px', color: '#6b7280' }}>
+          No headings yet. Type # at the start of a line to add one.
+        </div>
+      ) : (
+        <nav style={{ flex: 1, overflowY: 'auto', padding: '8px 0' }}>
+          {headings.map((heading, index) => (
+            <div
+              key={heading.id ?? heading.pos}
+              draggable={editor.isEditable}
+              onDragStart={event => {
+                event.dataTransfer.effectAllowed = 'move';
+                // Firefox only starts a drag with some data set; a type of our
+                // own keeps it from being dropped into the note as text
+                event.dataTransfer.setData('application/x-outline-section', heading.text);
+                setDragIndex(index);
+              }}
+              onDragOver={event => handleDragOver(event, index)}
+              onDrop={handleDrop}
+              onDragEnd={() => {
+                setDragIndex(null);
+                setDropTarget(null);
+              }}
+              onClick={() => open(heading)}
+              title={heading.text}
+              style={{
+                padding: `4px 12px 4px ${12 + (heading.level - 1) * 14}px`,
+                borderTop: dropLine(index, false),
+                borderBottom: dropLine(index, true),
+                backgroundColor: index === activeIndex ? '#f3f4f6' : 'transparent',
+                color: index === activeIndex ? '#111827' : '#4b5563',
+                fontWeight: index === activeIndex ? 500 : 400,
+                opacity: index === dragIndex ? 0.5 : 1,
+                cursor: 'pointer',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap'
+              }}
+            >
+              {heading.text.trim() || <span style={{ color: '#9ca3af' }}>Untitled heading</span>}
+            </div>
+          ))}
+        </nav>
+      )}
+    </aside>
+  );
+};
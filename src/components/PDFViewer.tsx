@@ -13,11 +13,15 @@ import {
   Pen
 } from 'lucide-react';
 
-// Set up PDF.js worker
-pdfjs.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjs.version}/pdf.worker.min.js`;
+// Bundled PDF.js worker, so PDFs render offline. pdfjs-dist is pinned to the
+// version react-pdf is built against; the worker must match it exactly.
+pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
 
 interface PDFViewerProps {
   pdf: PDFDocument;
+  // Loadable URL for the document; defaults to `pdf.path`
+  file?: string;
+  onLoad?: (numPages: number) => void;
   onSaveAnnotation: (annotation: PDFAnnotation) => void;
   onDeleteAnnotation: (annotationId: string) => void;
   onClose: () => void;
@@ -25,6 +29,8 @@ interface PDFViewerProps {
 
 export const PDFViewer: React.FC<PDFViewerProps> = ({
   pdf,
+  file,
+  onLoad,
   onSaveAnnotation,
   onDeleteAnnotation,
   onClose,
@@ -46,6 +52,7 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
 
   const onDocumentLoadSuccess = ({ numPages }: { numPages: number }) => {
     setNumPages(numPages);
+    onLoad?.(numPages);
   };
 
   const changePage = (offset: number) => {
@@ -276,7 +283,7 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
       >
         <div className="flex justify-center">
           <Document
-            file={pdf.path}
+            file={file ?? pdf.path}
             onLoadSuccess={onDocumentLoadSuccess}
             loading={<div className="text-center">Loading PDF...</div>}
             error={<div className="text-center text-red-500">Error loading PDF</div>}
@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { NodeViewProps, NodeViewWrapper } from '@tiptap/react';
+import { Document, Page } from 'react-pdf';
+import { FileText, Maximize2 } from 'lucide-react';
+import { PDFAnnotation, PDFDocument } from '../types';
+import { isNotFound } from '../lib/repository';
+import type { PdfBlockOptions } from '../extensions/PdfBlock';
+import { PDFViewer } from './PDFViewer';
+
+const PREVIEW_WIDTH = 320;
+
+// Inline rendering of a `pdf` block: the document's first page with its name
+// and page count. "Open" expands it into the full PDFViewer, whose
+// annotations are saved back to the vault document.
+export const PdfBlockView: React.FC<NodeViewProps> = ({ node, extension, selected }) => {
+  const { library, onError } = extension.options as PdfBlockOptions;
+  const pdfId = node.attrs.pdfId as string | null;
+  const [pdf, setPdf] = useState<PDFDocument | null>(null);
+  const [fileUrl, setFileUrl] = useState<string>();
+  const [isMissing, setIsMissing] = useState(false);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  useEffect(() => {
+    if (!library || !pdfId) {
+      return;
+    }
+    let cancelled = false;
+    library.load(pdfId)
+      .then(async loaded => {
+        const url = await library.fileUrl(loaded);
+        if (!cancelled) {
+          setPdf(loaded);
+          setFileUrl(url);
+        }
+      })
+      .catch(error => {
+        if (cancelled) {
+          return;
+        }
+        if (isNotFound(error)) {
+          setIsMissing(true);
+        } else {
+          onError?.(error);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [library, pdfId]);
+
+  // Keeps the view on the document the library returned after each change
+  const run = (change: Promise<PDFDocument>) => {
+    change.then(setPdf).catch(error => onError?.(error));
+  };
+
+  const handleLoad = (numPages: number) => {
+    if (library && pdf && pdf.pages !== numPages) {
+      run(library.setPageCount(pdf.id, numPages));
+    }
+  };
+
+  const fallbackName = (node.attrs.filePath as string | null)?.split(/[\\/]/).pop() ?? 'PDF';
+  const status = isMissing
+    ? 'This PDF is no longer in the vault'
+    : !pdfId
+      ? 'Not imported into the vault'
+      : pdf && pdf.pages > 0
+        ? `${pdf.pages} ${pdf.pages === 1 ? 'page' : 'pages'}`
+        : '';
+
+  return (
+    <NodeViewWrapper
+      data-type="pdf"
+      contentEditable={false}
+      style={{
+        margin: '8px 0',
+        border: `1px solid ${selected ? '#93c5fd' : '#e5e7eb'}`,
+        borderRadius: '6px',
+        overflow: 'hidden',
+        backgroundColor: '#ffffff'
+      }}
+    >
+      <div
+        data-drag-handle
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+          padding: '8px 12px',
+          borderBottom: fileUrl ? '1px solid #e5e7eb' : 'none',
+          cursor: 'grab'
+        }}
+      >
+        <FileText style={{ width: '16px', height: '16px', color: '#dc2626', flexShrink: 0 }} />
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <div style={{ fontSize: '14px', fontWeight: '500', color: '#37352f', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {pdf?.name ?? fallbackName}
+          </div>
+          {status && <div style={{ fontSize: '12px', color: '#9ca3af' }}>{status}</div>}
+        </div>
+        {pdf && fileUrl && (
+          <button
+            onClick={() => setIsExpanded(true)}
+            title="Open PDF"
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '4px',
+              padding: '4px 8px',
+              border: '1px solid #e5e7eb',
+              borderRadius: '4px',
+              backgroundColor: 'transparent',
+              color: '#6b7280',
+              fontSize: '12px',
+              cursor: 'pointer'
+            }}
+          >
+            <Maximize2 style={{ width: '12px', height: '12px' }} />
+            Open
+          </button>
+        )}
+      </div>
+
+      {pdf && fileUrl && (
+        <div
+          onDoubleClick={() => setIsExpanded(true)}
+          style={{ display: 'flex', justifyContent: 'center', padding: '12px', backgroundColor: '#f9fafb', cursor: 'zoom-in' }}
+        >
+          <Document
+            file={fileUrl}
+            onLoadSuccess={({ numPages }) => handleLoad(numPages)}
+            loading={<div style={{ fontSize: '12px', color: '#9ca3af' }}>Loading PDF...</div>}
+            error={<div style={{ fontSize: '12px', color: '#dc2626' }}>Could not load this PDF</div>}
+          >
+            <Page
+              pageNumber={1}
+              width={PREVIEW_WIDTH}
+              renderTextLayer={false}
+              renderAnnotationLayer={false}
+            />
+          </Document>
+        </div>
+      )}
+
+      {isExpanded && pdf && fileUrl && library && createPortal(
+        <div
+          style={{
+            position: 'fixed',
+            inset: 0,
+            zIndex: 50,
+            display: 'flex',
+            flexDirection: 'column',
+            backgroundColor: '#ffffff'
+          }}
+        >
+          <PDFViewer
+            pdf={pdf}
+            file={fileUrl}
+            onLoad={handleLoad}
+            onSaveAnnotation={(annotation: PDFAnnotation) => run(library.saveAnnotation(pdf.id, annotation))}
+            onDeleteAnnotation={(annotationId) => run(library.deleteAnnotation(pdf.id, annotationId))}
+            onClose={() => setIsExpanded(false)}
+          />
+        </div>,
+        document.body,
+      )}
+    </NodeViewWrapper>
+  );
+};
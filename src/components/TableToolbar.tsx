@@ -0,0 +1,125 @@
+import React from 'react';
+import { Editor, useEditorState } from '@tiptap/react';
+import { BubbleMenu } from '@tiptap/react/menus';
+import { PluginKey } from '@tiptap/pm/state';
+import { CellSelection, columnIsHeader, isInTable, rowIsHeader, selectedRect } from '@tiptap/pm/tables';
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowRight,
+  ArrowUp,
+  BetweenHorizontalEnd,
+  BetweenHorizontalStart,
+  BetweenVerticalEnd,
+  BetweenVerticalStart,
+  Columns3,
+  PanelLeft,
+  PanelTop,
+  Rows3,
+  Trash2,
+} from 'lucide-react';
+
+interface TableToolbarProps {
+  editor: Editor;
+}
+
+// Row, column and header controls under the caret while it is in a table.
+// Text selections inside cells get the BlockToolbar instead.
+export const TableToolbar: React.FC<TableToolbarProps> = ({ editor }) => {
+  const state = useEditorState({
+    editor,
+    selector: ({ editor }) => {
+      const rect = isInTable(editor.state) ? selectedRect(editor.state) : null;
+      return {
+        headerRow: rect ? rowIsHeader(rect.map, rect.table, 0) : false,
+        headerColumn: rect ? columnIsHeader(rect.map, rect.table, 0) : false,
+        canMoveRowUp: editor.can().moveRow(-1),
+        canMoveRowDown: editor.can().moveRow(1),
+        canMoveColumnLeft: editor.can().moveColumn(-1),
+        canMoveColumnRight: editor.can().moveColumn(1),
+      };
+    },
+  });
+
+  const ToolbarButton = ({
+    onClick,
+    disabled = false,
+    isActive = false,
+    icon: Icon,
+    title
+  }: {
+    onClick: () => void;
+    disabled?: boolean;
+    isActive?: boolean;
+    icon: React.ElementType;
+    title: string;
+  }) => (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`p-2 rounded-md transition-colors disabled:opacity-40 disabled:pointer-events-none ${
+        isActive
+          ? 'bg-primary text-primary-foreground'
+          : 'hover:bg-accent text-muted-foreground hover:text-foreground'
+      }`}
+      title={title}
+    >
+      <Icon className="w-4 h-4" />
+    </button>
+  );
+
+  const GroupLabel = ({ icon: Icon, label }: { icon: React.ElementType; label: string }) => (
+    <span className="flex items-center px-1 text-muted-foreground" title={label}>
+      <Icon className="w-3 h-3" />
+    </span>
+  );
+
+  return (
+    <BubbleMenu
+      editor={editor}
+      pluginKey={new PluginKey('tableToolbar')}
+      shouldShow={({ editor, state: editorState }) =>
+        editor.isEditable &&
+        editor.isActive('table') &&
+        (editorState.selection.empty || editorState.selection instanceof CellSelection)
+      }
+      options={{ placement: 'bottom' }}
+      className="bg-background border border-border rounded-lg shadow-lg"
+    >
+      <div className="flex items-center gap-1 p-1">
+        {/* Rows */}
+        <div className="flex items-center gap-1 border-r border-border pr-1">
+          <GroupLabel icon={Rows3} label="Row" />
+          <ToolbarButton onClick={() => editor.chain().focus().addRowBefore().run()} icon={BetweenHorizontalStart} title="Insert row above" />
+          <ToolbarButton onClick={() => editor.chain().focus().addRowAfter().run()} icon={BetweenHorizontalEnd} title="Insert row below" />
+          <ToolbarButton onClick={() => editor.chain().focus().moveRow(-1).run()} disabled={!state.canMoveRowUp} icon={ArrowUp} title="Move row up" />
+          <ToolbarButton onClick={() => editor.chain().focus().moveRow(1).run()} disabled={!state.canMoveRowDown} icon={ArrowDown} title="Move row down" />
+          <ToolbarButton onClick={() => editor.chain().focus().deleteRow().run()} icon={Trash2} title="Delete row" />
+        </div>
+
+        {/* Columns */}
+        <div className="flex items-center gap-1 border-r border-border pr-1">
+          <GroupLabel icon={Columns3} label="Column" />
+          <ToolbarButton onClick={() => editor.chain().focus().addColumnBefore().run()} icon={BetweenVerticalStart} title="Insert column left" />
+          <ToolbarButton onClick={() => editor.chain().focus().addColumnAfter().run()} icon={BetweenVerticalEnd} title="Insert column right" />
+          <ToolbarButton onClick={() => editor.chain().focus().moveColumn(-1).run()} disabled={!state.canMoveColumnLeft} icon={ArrowLeft} title="Move column left" />
+          <ToolbarButton onClick={() => editor.chain().focus().moveColumn(1).run()} disabled={!state.canMoveColumnRight} icon={ArrowRight} title="Move column right" />
+          <ToolbarButton onClick={() => editor.chain().focus().deleteColumn().run()} icon={Trash2} title="Delete column" />
+        </div>
+
+        {/* Headers and the table itself */}
+        <div className="flex items-center gap-1">
+          <ToolbarButton onClick={() => editor.chain().focus().toggleHeaderRow().run()} isActive={state.headerRow} icon={PanelTop} title="Header row" />
+          <ToolbarButton onClick={() => editor.chain().focus().toggleHeaderColumn().run()} isActive={state.headerColumn} icon={PanelLeft} title="Header column" />
+          <button
+            onClick={() => editor.chain().focus().deleteTable().run()}
+            className="px-2 py-1 rounded-md text-sm text-muted-foreground hover:bg-accent hover:text-foreground"
+            title="Delete table"
+          >
+            Delete table
+          </button>
+        </div>
+      </div>
+    </BubbleMenu>
+  );
+};
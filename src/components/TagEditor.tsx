@@ -0,0 +1,138 @@
+import React, { useMemo, useState } from 'react';
+import { Hash, X } from 'lucide-react';
+import { normalizeTag } from '../lib/tags';
+
+interface TagEditorProps {
+  tags: string[];
+  // Every tag in the vault, offered as completions
+  suggestions: string[];
+  onChange: (tags: string[]) => void;
+}
+
+export const TagEditor: React.FC<TagEditorProps> = ({ tags, suggestions, onChange }) => {
+  const [input, setInput] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+
+  const matches = useMemo(() => {
+    const query = normalizeTag(input);
+    if (!query) {
+      return [];
+    }
+    return suggestions
+      .filter(tag => !tags.includes(tag) && tag.includes(query))
+      // Prefix matches first
+      .sort((a, b) => Number(!a.startsWith(query)) - Number(!b.startsWith(query)) || a.localeCompare(b))
+      .slice(0, 8);
+  }, [input, suggestions, tags]);
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (tag && !tags.includes(tag)) {
+      onChange([...tags, tag]);
+    }
+    setInput('');
+    setHighlighted(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',' || (e.key === 'Tab' && input)) {
+      e.preventDefault();
+      addTag(matches[highlighted] ?? input);
+    } else if (e.key === 'ArrowDown' && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % matches.length);
+    } else if (e.key === 'ArrowUp' && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + matches.length) % matches.length);
+    } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    } else if (e.key === 'Escape') {
+      setInput('');
+    }
+  };
+
+  return (
+    <div style={{ position: 'relative', display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '6px', marginBottom: '16px' }}>
+      {tags.map(tag => (
+        <span
+          key={tag}
+          style={{
+            display: 'inline-flex',
+            alignItems: 'center',
+            gap: '2px',
+            padding: '2px 4px 2px 8px',
+            borderRadius: '12px',
+            backgroundColor: '#f3f4f6',
+            color: '#374151',
+            fontSize: '12px'
+          }}
+        >
+          #{tag}
+          <button
+            onClick={() => onChange(tags.filter(t => t !== tag))}
+            title={`Remove #${tag}`}
+            style={{ display: 'flex', padding: '2px', border: 'none', background: 'transparent', cursor: 'pointer', color: '#9ca3af' }}
+          >
+            <X style={{ width: '10px', height: '10px' }} />
+          </button>
+        </span>
+      ))}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '4px', color: '#9ca3af' }}>
+        <Hash style={{ width: '12px', height: '12px' }} />
+        <input
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setHighlighted(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            if (input) {
+              addTag(input);
+            }
+          }}
+          placeholder={tags.length === 0 ? 'Add tags' : ''}
+          style={{ width: '120px', border: 'none', outline: 'none', fontSize: '12px', color: '#374151', backgroundColor: 'transparent' }}
+        />
+      </div>
+      {isFocused && matches.length > 0 && (
+        <div style={{
+          position: 'absolute',
+          top: '100%',
+          left: 0,
+          marginTop: '4px',
+          minWidth: '160px',
+          backgroundColor: 'white',
+          borderRadius: '6px',
+          boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -2px rgba(0, 0, 0, 0.05)',
+          border: '1px solid #e5e7eb',
+          zIndex: 10
+        }}>
+          {matches.map((tag, index) => (
+            <div
+              key={tag}
+              // mousedown so the pick happens before the input blurs
+              onMouseDown={(e) => {
+                e.preventDefault();
+                addTag(tag);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              style={{
+                padding: '6px 10px',
+                fontSize: '13px',
+                cursor: 'pointer',
+                color: '#374151',
+                backgroundColor: index === highlighted ? '#f3f4f6' : 'transparent'
+              }}
+            >
+              #{tag}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,20 @@
+import { Node, mergeAttributes } from '@tiptap/core';
+
+// Holds a block that has children but can't nest them itself, such as a
+// paragraph or heading: the first node is the block, the ones after it its
+// children, shown indented. It carries no id of its own; see `renderBlock`
+// in lib/blocks.
+export const BlockGroup = Node.create({
+  name: 'blockGroup',
+  group: 'block',
+  content: 'block+',
+  defining: true,
+
+  parseHTML() {
+    return [{ tag: 'div[data-type="group"]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes(HTMLAttributes, { 'data-type': 'group', class: 'block-group' }), 0];
+  },
+});
@@ -0,0 +1,135 @@
+import { Extension } from '@tiptap/core';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { EditorState, Plugin, PluginKey } from '@tiptap/pm/state';
+import { Mapping } from '@tiptap/pm/transform';
+
+// Node types that map onto a `Block`. Each carries a stable `blockId` so a
+// block keeps its id across saves instead of being regenerated every time.
+export const BLOCK_NODE_TYPES = [
+  'paragraph',
+  'heading',
+  'listItem',
+  'taskItem',
+  'horizontalRule',
+  'image',
+  'codeBlock',
+  'mathBlock',
+  'diagram',
+  'pdf',
+  'toggle',
+  'table',
+  'blockquote',
+  'callout',
+];
+
+export interface BlockIdOptions {
+  types: string[];
+}
+
+interface PlacedNode {
+  node: ProseMirrorNode;
+  pos: number;
+}
+
+function findBlock(state: EditorState, id: string): PlacedNode | undefined {
+  let found: PlacedNode | undefined;
+  state.doc.descendants((node, pos) => {
+    if (found) {
+      return false;
+    }
+    if (node.attrs.blockId === id) {
+      found = { node, pos };
+    }
+  });
+  return found;
+}
+
+// Which of the nodes sharing an id keeps it: the one with the block's
+// original content, preferring it where the block was (a copy pasted before
+// the original doesn't take its id). After a split that moved everything,
+// e.g. Enter at the start of a line, that is the second half; otherwise the
+// first half that has any content.
+function keeperOf(copies: PlacedNode[], original: PlacedNode | undefined, mapping: Mapping): PlacedNode {
+  if (original) {
+    const unchanged = copies.filter(copy => copy.node.content.eq(original.node.content));
+    const kept = unchanged.find(copy => copy.pos === mapping.map(original.pos)) ?? unchanged[0];
+    if (kept) {
+      return kept;
+    }
+  }
+  return copies.find(copy => copy.node.content.size > 0) ?? copies[0];
+}
+
+export const BlockId = Extension.create<BlockIdOptions>({
+  name: 'blockId',
+
+  addOptions() {
+    return {
+      types: BLOCK_NODE_TYPES,
+    };
+  },
+
+  addGlobalAttributes() {
+    return [
+      {
+        types: this.options.types,
+        attributes: {
+          blockId: {
+            default: null,
+            // Both halves of a split start out with the id; the plugin below
+            // leaves it on the one holding the original content
+            keepOnSplit: true,
+            parseHTML: element => element.getAttribute('data-block-id'),
+            renderHTML: attributes =>
+              attributes.blockId ? { 'data-block-id': attributes.blockId } : {},
+          },
+        },
+      },
+    ];
+  },
+
+  addProseMirrorPlugins() {
+    const types = new Set(this.options.types);
+
+    return [
+      new Plugin({
+        key: new PluginKey('blockId'),
+        // Fill in missing ids and replace duplicates (e.g. from copy/paste or
+        // a split)
+        appendTransaction: (transactions, oldState, newState) => {
+          if (!transactions.some(tr => tr.docChanged)) {
+            return null;
+          }
+
+          const missing: PlacedNode[] = [];
+          const byId = new Map<string, PlacedNode[]>();
+          newState.doc.descendants((node, pos) => {
+            if (!types.has(node.type.name)) {
+              return;
+            }
+            const id = node.attrs.blockId as string | null;
+            if (id) {
+              byId.set(id, [...(byId.get(id) ?? []), { node, pos }]);
+            } else {
+              missing.push({ node, pos });
+            }
+          });
+
+          const mapping = new Mapping();
+          transactions.forEach(tr => mapping.appendMapping(tr.mapping));
+          const duplicates = Array.from(byId, ([id, copies]) => {
+            const original = copies.length > 1 ? keeperOf(copies, findBlock(oldState, id), mapping) : copies[0];
+            return copies.filter(copy => copy !== original);
+          }).flat();
+
+          // Attribute changes leave positions as they are
+          const tr = newState.tr;
+          [...missing, ...duplicates].forEach(({ node, pos }) => {
+            tr.setNodeMarkup(pos, undefined, { ...node.attrs, blockId: crypto.randomUUID() });
+          });
+          return tr.docChanged ? tr : null;
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Editor } from '@tiptap/core';
+import StarterKit from '@tiptap/starter-kit';
+import { BlockGroup } from './BlockGroup';
+import { BlockNesting } from './BlockNesting';
+
+const createEditor = (content: string) => new Editor({
+  element: document.createElement('div'),
+  extensions: [StarterKit.configure({ trailingNode: false }), BlockGroup, BlockNesting],
+  content,
+});
+
+// Puts the caret at the end of the block whose text is `text`
+const selectText = (editor: Editor, text: string) => {
+  editor.state.doc.descendants((node, pos) => {
+    if (node.isTextblock && node.textContent === text) {
+      editor.commands.setTextSelection(pos + 1 + text.length);
+    }
+  });
+};
+
+const selectedText = (editor: Editor) => editor.state.selection.$from.parent.textContent;
+
+describe('BlockNesting', () => {
+  let editor: Editor | null = null;
+  afterEach(() => {
+    editor?.destroy();
+    editor = null;
+  });
+
+  it('groups a block under the paragraph or heading before it', () => {
+    editor = createEditor('<h2>Heading</h2><p>Body</p>');
+    selectText(editor, 'Body');
+    expect(editor.commands.indentBlock()).toBe(true);
+    expect(editor.getHTML()).toBe('<div data-type="group" class="block-group"><h2>Heading</h2><p>Body</p></div>');
+    expect(selectedText(editor)).toBe('Body');
+  });
+
+  it('adds to an existing group rather than nesting another one', () => {
+    editor = createEditor('<div data-type="group"><p>Parent</p><p>First</p></div><p>Second</p>');
+    selectText(editor, 'Second');
+    editor.commands.indentBlock();
+    expect(editor.getHTML()).toBe('<div data-type="group" class="block-group"><p>Parent</p><p>First</p><p>Second</p></div>');
+  });
+
+  it('unwraps a group once its last child is moved out', () => {
+    editor = createEditor('<p>Parent</p><p>Child</p>');
+    selectText(editor, 'Child');
+    editor.commands.indentBlock();
+    expect(editor.commands.outdentBlock()).toBe(true);
+    expect(editor.getHTML()).toBe('<p>Parent</p><p>Child</p>');
+    expect(selectedText(editor)).toBe('Child');
+  });
+
+  it('keeps a group that still has children', () => {
+    editor = createEditor('<div data-type="group"><p>Parent</p><p>First</p><p>Second</p></div>');
+    selectText(editor, 'First');
+    editor.commands.outdentBlock();
+    expect(editor.getHTML()).toBe('<div data-type="group" class="block-group"><p>Parent</p><p>Second</p></div><p>First</p>');
+  });
+});
@@ -0,0 +1,184 @@
+import { Extension } from '@tiptap/core';
+import { Fragment, Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { EditorState, NodeSelection, Selection, TextSelection, Transaction } from '@tiptap/pm/state';
+import { isInTable } from '@tiptap/pm/tables';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    blockNesting: {
+      // Moves the current block under the block before it
+      indentBlock: () => ReturnType;
+      // Moves the current block out of its parent, to just after it
+      outdentBlock: () => ReturnType;
+    };
+  }
+}
+
+// Nodes that hold child blocks after their own first paragraph, or for
+// groups their first block
+const BLOCK_CONTAINERS = ['toggle', 'blockquote', 'callout', 'blockGroup'];
+const CONTAINERS = [...BLOCK_CONTAINERS, 'listItem', 'taskItem'];
+const LISTS = ['bulletList', 'orderedList', 'taskList'];
+
+interface MovableBlock {
+  pos: number;
+  node: ProseMirrorNode;
+}
+
+const isChildSlot = (parent: ProseMirrorNode, index: number) =>
+  parent.type.name === 'doc' || (CONTAINERS.includes(parent.type.name) && index > 0);
+
+// The block Tab and Shift-Tab move: the innermost node around the selection
+// that sits directly in the document or among a container's children. The
+// first paragraph of a toggle, quote or callout stands for the whole block.
+function movableBlock(selection: Selection): MovableBlock | null {
+  const { $from } = selection;
+  if (selection instanceof NodeSelection && isChildSlot($from.parent, $from.index())) {
+    return { pos: selection.from, node: selection.node };
+  }
+  for (let depth = $from.depth; depth > 0; depth -= 1) {
+    if (isChildSlot($from.node(depth - 1), $from.index(depth - 1))) {
+      return { pos: $from.before(depth), node: $from.node(depth) };
+    }
+  }
+  return null;
+}
+
+// List items, code and other source blocks, and tables keep their own Tab
+// handling
+function handledElsewhere(state: EditorState): boolean {
+  const { $from } = state.selection;
+  if ($from.parent.type.spec.code || isInTable(state)) {
+    return true;
+  }
+  return $from.depth > 1 && ['listItem', 'taskItem'].includes($from.node(-1).type.name) && $from.index(-1) === 0;
+}
+
+// Deletes the block and inserts it at `target` (a position in the original
+// document), keeping the selection on the same content
+function moveBlock(state: EditorState, block: MovableBlock, target: number, split = false): Transaction | null {
+  const tr = state.tr.delete(block.pos, block.pos + block.node.nodeSize);
+  let insertAt = tr.mapping.map(target);
+  if (split) {
+    tr.split(insertAt);
+    insertAt += 1;
+  }
+  const $insert = tr.doc.resolve(insertAt);
+  if (!$insert.parent.canReplace($insert.index(), $insert.index(), Fragment.from(block.node))) {
+    return null;
+  }
+  tr.insert(insertAt, block.node);
+  return keepSelection(tr, state.selection, insertAt - block.pos);
+}
+
+// Puts the selection back on the moved content, `offset` from where it was
+function keepSelection(tr: Transaction, selection: Selection, offset: number): Transaction {
+  tr.setSelection(selection instanceof NodeSelection
+    ? NodeSelection.create(tr.doc, selection.from + offset)
+    : TextSelection.create(tr.doc, selection.from + offset, selection.to + offset));
+  return tr.scrollIntoView();
+}
+
+// Nests the block under a paragraph, heading or other block that can't hold
+// children itself by wrapping the two in a group
+function groupWithPrevious(state: EditorState, block: MovableBlock, previous: ProseMirrorNode): Transaction | null {
+  const group = state.schema.nodes.blockGroup;
+  const content = Fragment.from([previous, block.node]);
+  if (!group || !group.validContent(content)) {
+    return null;
+  }
+  const $pos = state.doc.resolve(block.pos);
+  if (!$pos.parent.canReplaceWith($pos.index() - 1, $pos.index() + 1, group)) {
+    return null;
+  }
+  const tr = state.tr.replaceWith(block.pos - previous.nodeSize, block.pos + block.node.nodeSize, group.create(null, content));
+  return keepSelection(tr, state.selection, 1);
+}
+
+// Tab and Shift-Tab nest blocks the way Notion does: a block moves into the
+// toggle, quote, callout or list right before it, or is grouped under any
+// other block, and back out again. The moved node takes its children along,
+// so `children` and `order` follow on the next save.
+export const BlockNesting = Extension.create({
+  name: 'blockNesting',
+  // Ahead of the list keymaps, which would lift a whole item on Shift-Tab
+  priority: 101,
+
+  addCommands() {
+    return {
+      indentBlock: () => ({ state, dispatch }) => {
+        const block = movableBlock(state.selection);
+        if (!block) {
+          return false;
+        }
+        const $pos = state.doc.resolve(block.pos);
+        const index = $pos.index();
+        const firstChild = $pos.parent.type.name === 'doc' ? 0 : 1;
+        if (index <= firstChild) {
+          return false;
+        }
+        const previous = $pos.parent.child(index - 1);
+        const previousEnd = block.pos;
+        let tr: Transaction | null;
+        if (BLOCK_CONTAINERS.includes(previous.type.name)) {
+          tr = moveBlock(state, block, previousEnd - 1);
+        } else if (LISTS.includes(previous.type.name)) {
+          // Inside the list's last item, after its content
+          tr = moveBlock(state, block, previousEnd - 2);
+        } else {
+          tr = groupWithPrevious(state, block, previous);
+        }
+        if (!tr) {
+          return false;
+        }
+        dispatch?.(tr);
+        return true;
+      },
+
+      outdentBlock: () => ({ state, dispatch }) => {
+        const block = movableBlock(state.selection);
+        if (!block) {
+          return false;
+        }
+        const $pos = state.doc.resolve(block.pos);
+        const parent = $pos.parent;
+        if (parent.type.name === 'doc') {
+          return false;
+        }
+        const depth = $pos.depth;
+        let tr: Transaction | null;
+        if (BLOCK_CONTAINERS.includes(parent.type.name)) {
+          tr = moveBlock(state, block, $pos.after(depth));
+          // A group left holding only its first block goes away
+          if (tr && parent.type.name === 'blockGroup' && parent.childCount === 2) {
+            const groupPos = tr.mapping.map($pos.before(depth));
+            const group = tr.doc.nodeAt(groupPos);
+            if (group) {
+              tr.replaceWith(groupPos, groupPos + group.nodeSize, group.content);
+            }
+          }
+        } else {
+          // Out of the item and its list; later items continue in a new list
+          const list = $pos.node(depth - 1);
+          const isLastItem = $pos.index(depth - 1) === list.childCount - 1;
+          tr = isLastItem
+            ? moveBlock(state, block, $pos.after(depth - 1))
+            : moveBlock(state, block, $pos.after(depth), true);
+        }
+        if (!tr) {
+          return false;
+        }
+        dispatch?.(tr);
+        return true;
+      },
+    };
+  },
+
+  addKeyboardShortcuts() {
+    // Tab is swallowed even when nothing moves, so focus stays in the editor
+    return {
+      Tab: ({ editor }) => !handledElsewhere(editor.state) && (editor.commands.indentBlock() || true),
+      'Shift-Tab': ({ editor }) => !handledElsewhere(editor.state) && (editor.commands.outdentBlock() || true),
+    };
+  },
+});
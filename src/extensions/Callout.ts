@@ -0,0 +1,174 @@
+import { Node, NodeViewRendererProps, mergeAttributes } from '@tiptap/core';
+import { Megaphone } from 'lucide-react';
+import { COLORS, colorId, findColor } from '../lib/colors';
+import { registerSlashCommand } from './SlashCommand';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    callout: {
+      // Wraps the current paragraph in a callout
+      setCallout: (attributes?: { icon?: string; color?: string }) => ReturnType;
+    };
+  }
+}
+
+export const DEFAULT_CALLOUT_ICON = '💡';
+export const DEFAULT_CALLOUT_COLOR = 'gray';
+
+// Offered by the icon picker; any emoji typed into saved HTML still shows
+const CALLOUT_ICONS = ['💡', 'ℹ️', '⚠️', '❗', '✅', '❌', '📌', '📝', '🔥', '⭐', '🚧', '💬', '📣', '🔒', '🐛', '🎯'];
+
+registerSlashCommand({
+  id: 'callout',
+  title: 'Callout',
+  description: 'Make writing stand out',
+  icon: Megaphone,
+  keywords: ['note', 'warning', 'info', 'tip'],
+  run: ({ editor, range }) => editor.chain().focus().deleteRange(range).setParagraph().setCallout().run(),
+});
+
+// Highlighted box with an emoji, saved as a `callout` block. Its first
+// paragraph is the text; blocks after it are children, as in toggles.
+export const Callout = Node.create({
+  name: 'callout',
+  group: 'block',
+  content: 'paragraph block*',
+  defining: true,
+
+  addAttributes() {
+    return {
+      icon: {
+        default: DEFAULT_CALLOUT_ICON,
+        parseHTML: element => element.getAttribute('data-icon') || DEFAULT_CALLOUT_ICON,
+        renderHTML: attributes => ({ 'data-icon': attributes.icon }),
+      },
+      color: {
+        default: DEFAULT_CALLOUT_COLOR,
+        parseHTML: element => element.getAttribute('data-color') || DEFAULT_CALLOUT_COLOR,
+        renderHTML: attributes => ({ 'data-color': attributes.color }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'div[data-type="callout"]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes(HTMLAttributes, { 'data-type': 'callout' }), 0];
+  },
+
+  addCommands() {
+    return {
+      setCallout: attributes => ({ commands }) => commands.wrapIn(this.name, attributes),
+    };
+  },
+
+  addNodeView() {
+    return ({ node: initialNode, editor, getPos }: NodeViewRendererProps) => {
+      let node = initialNode;
+
+      const dom = document.createElement('div');
+      dom.className = 'callout';
+
+      const iconButton = document.createElement('button');
+      iconButton.type = 'button';
+      iconButton.className = 'callout-icon';
+      iconButton.contentEditable = 'false';
+      iconButton.title = 'Change icon and color';
+
+      const picker = document.createElement('div');
+      picker.className = 'callout-picker';
+      picker.contentEditable = 'false';
+      picker.hidden = true;
+
+      const content = document.createElement('div');
+      content.className = 'callout-content';
+
+      const setAttribute = (name: 'icon' | 'color', value: string) => {
+        if (!editor.isEditable || typeof getPos !== 'function') {
+          return;
+        }
+        editor.chain().command(({ tr }) => {
+          const position = getPos();
+          if (typeof position !== 'number') {
+            return false;
+          }
+          tr.setNodeAttribute(position, name, value);
+          return true;
+        }).run();
+      };
+
+      const icons = document.createElement('div');
+      icons.className = 'callout-picker-icons';
+      CALLOUT_ICONS.forEach(icon => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.textContent = icon;
+        button.addEventListener('click', () => {
+          setAttribute('icon', icon);
+          picker.hidden = true;
+        });
+        icons.append(button);
+      });
+
+      const colors = document.createElement('div');
+      colors.className = 'callout-picker-colors';
+      COLORS.forEach(color => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.title = color.name;
+        button.style.backgroundColor = color.highlight;
+        button.style.borderColor = color.text;
+        button.addEventListener('click', () => setAttribute('color', colorId(color)));
+        colors.append(button);
+      });
+      picker.append(icons, colors);
+
+      iconButton.addEventListener('mousedown', event => event.preventDefault());
+      iconButton.addEventListener('click', () => {
+        picker.hidden = !picker.hidden || !editor.isEditable;
+      });
+
+      // Any click elsewhere closes the picker
+      const onDocumentMouseDown = (event: MouseEvent) => {
+        const target = event.target as globalThis.Node;
+        if (!picker.hidden && !picker.contains(target) && !iconButton.contains(target)) {
+          picker.hidden = true;
+        }
+      };
+      document.addEventListener('mousedown', onDocumentMouseDown);
+
+      const sync = () => {
+        const color = findColor(node.attrs.color) ?? findColor(DEFAULT_CALLOUT_COLOR)!;
+        iconButton.textContent = node.attrs.icon || DEFAULT_CALLOUT_ICON;
+        dom.style.backgroundColor = color.highlight;
+        dom.dataset.color = colorId(color);
+      };
+
+      sync();
+      dom.append(iconButton, picker, content);
+
+      const isControl = (target: EventTarget | globalThis.Node | null) =>
+        iconButton.contains(target as globalThis.Node) || picker.contains(target as globalThis.Node);
+
+      return {
+        dom,
+        contentDOM: content,
+        update: updated => {
+          if (updated.type !== node.type) {
+            return false;
+          }
+          node = updated;
+          sync();
+          return true;
+        },
+        stopEvent: (event: Event) => isControl(event.target),
+        ignoreMutation: (mutation) =>
+          (mutation.type === 'attributes' && mutation.target === dom) ||
+          (mutation.type !== 'selection' && isControl(mutation.target)),
+        destroy: () => document.removeEventListener('mousedown', onDocumentMouseDown),
+      };
+    };
+  },
+});
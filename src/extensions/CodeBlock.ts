@@ -0,0 +1,162 @@
+import { CodeBlockLowlight } from '@tiptap/extension-code-block-lowlight';
+import { NodeViewRendererProps } from '@tiptap/core';
+import { common, createLowlight } from 'lowlight';
+import { Code } from 'lucide-react';
+import { registerSlashCommand } from './SlashCommand';
+
+// highlight.js grammars bundled with the app, so highlighting works offline
+export const lowlight = createLowlight(common);
+
+// Display names for the language picker; grammars missing here show their id
+const LANGUAGE_LABELS: Record<string, string> = {
+  arduino: 'Arduino',
+  bash: 'Bash',
+  c: 'C',
+  cpp: 'C++',
+  csharp: 'C#',
+  css: 'CSS',
+  diff: 'Diff',
+  go: 'Go',
+  graphql: 'GraphQL',
+  ini: 'INI',
+  java: 'Java',
+  javascript: 'JavaScript',
+  json: 'JSON',
+  kotlin: 'Kotlin',
+  less: 'Less',
+  lua: 'Lua',
+  makefile: 'Makefile',
+  markdown: 'Markdown',
+  objectivec: 'Objective-C',
+  perl: 'Perl',
+  php: 'PHP',
+  'php-template': 'PHP template',
+  plaintext: 'Plain text',
+  python: 'Python',
+  'python-repl': 'Python REPL',
+  r: 'R',
+  ruby: 'Ruby',
+  rust: 'Rust',
+  scss: 'SCSS',
+  shell: 'Shell',
+  sql: 'SQL',
+  swift: 'Swift',
+  typescript: 'TypeScript',
+  vbnet: 'VB.NET',
+  wasm: 'WebAssembly',
+  xml: 'HTML / XML',
+  yaml: 'YAML',
+};
+
+const languageLabel = (language: string) => LANGUAGE_LABELS[language] ?? language;
+
+const COPIED_FEEDBACK_MS = 1500;
+
+registerSlashCommand({
+  id: 'codeBlock',
+  title: 'Code block',
+  description: 'Add a code block',
+  icon: Code,
+  run: ({ editor, range }) => editor.chain().focus().deleteRange(range).setCodeBlock().run(),
+});
+
+// Code blocks highlighted by lowlight, with a language picker and a copy
+// button above the code. The language is saved on the `code` block.
+export const CodeBlock = CodeBlockLowlight.extend({
+  addOptions() {
+    return {
+      ...this.parent!(),
+      lowlight,
+      enableTabIndentation: true,
+      tabSize: 2,
+    };
+  },
+
+  addNodeView() {
+    return ({ node: initialNode, editor, getPos }: NodeViewRendererProps) => {
+      let node = initialNode;
+
+      const dom = document.createElement('div');
+      dom.className = 'code-block';
+
+      const header = document.createElement('div');
+      header.className = 'code-block-header';
+      header.contentEditable = 'false';
+
+      const select = document.createElement('select');
+      select.title = 'Language';
+      select.append(new Option('Auto-detect', ''));
+      lowlight
+        .listLanguages()
+        .sort((a, b) => languageLabel(a).localeCompare(languageLabel(b)))
+        .forEach(language => select.append(new Option(languageLabel(language), language)));
+
+      const copy = document.createElement('button');
+      copy.type = 'button';
+      copy.className = 'code-block-copy';
+      copy.textContent = 'Copy';
+
+      const pre = document.createElement('pre');
+      const code = document.createElement('code');
+      pre.append(code);
+
+      select.addEventListener('change', () => {
+        if (!editor.isEditable || typeof getPos !== 'function') {
+          return;
+        }
+        editor.chain().command(({ tr }) => {
+          const position = getPos();
+          if (typeof position !== 'number') {
+            return false;
+          }
+          tr.setNodeAttribute(position, 'language', select.value || null);
+          return true;
+        }).run();
+      });
+
+      let copiedTimeout: ReturnType<typeof setTimeout> | undefined;
+      copy.addEventListener('click', () => {
+        navigator.clipboard.writeText(node.textContent).then(() => {
+          copy.textContent = 'Copied';
+          clearTimeout(copiedTimeout);
+          copiedTimeout = setTimeout(() => {
+            copy.textContent = 'Copy';
+          }, COPIED_FEEDBACK_MS);
+        }).catch(error => console.error('Failed to copy code:', error));
+      });
+
+      const sync = () => {
+        const language = (node.attrs.language as string | null) ?? '';
+        // Unknown languages, e.g. from imported Markdown, still show up
+        if (language && !Array.from(select.options).some(option => option.value === language)) {
+          select.append(new Option(language, language));
+        }
+        select.value = language;
+        select.disabled = !editor.isEditable;
+        code.className = language ? `${this.options.languageClassPrefix}${language}` : '';
+      };
+
+      sync();
+      header.append(select, copy);
+      dom.append(header, pre);
+
+      return {
+        dom,
+        contentDOM: code,
+        update: updated => {
+          if (updated.type !== node.type) {
+            return false;
+          }
+          node = updated;
+          sync();
+          return true;
+        },
+        stopEvent: (event: Event) => header.contains(event.target as Node),
+        ignoreMutation: (mutation) =>
+          (mutation.type === 'attributes' && mutation.target === code) ||
+          (mutation.type !== 'selection' && header.contains(mutation.target)),
+        destroy: () => clearTimeout(copiedTimeout),
+      };
+    };
+  },
+});
@@ -0,0 +1,153 @@
+import { Node, NodeViewRendererProps, mergeAttributes } from '@tiptap/core';
+import { Workflow } from 'lucide-react';
+import { renderDiagram } from '../lib/diagrams';
+import { sourceBlockShortcuts, sourceEditingPlugin } from './SourceBlock';
+import { registerSlashCommand } from './SlashCommand';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    diagram: {
+      // Turns the current paragraph into a Mermaid diagram
+      setDiagram: () => ReturnType;
+    };
+  }
+}
+
+// Typing pauses this long before the preview is redrawn
+const PREVIEW_DELAY_MS = 300;
+
+registerSlashCommand({
+  id: 'diagram',
+  title: 'Diagram',
+  description: 'Draw a Mermaid flowchart or sequence',
+  icon: Workflow,
+  keywords: ['mermaid', 'flowchart', 'chart', 'graph', 'sequence'],
+  run: ({ editor, range }) => editor.chain().focus().deleteRange(range).setDiagram().run(),
+});
+
+// A `diagram` block: Mermaid source as the node's text, with the rendered
+// SVG next to it while editing and on its own otherwise.
+export const Diagram = Node.create({
+  name: 'diagram',
+  group: 'block',
+  content: 'text*',
+  marks: '',
+  code: true,
+  defining: true,
+
+  parseHTML() {
+    return [{ tag: 'div[data-type="diagram"]', preserveWhitespace: 'full' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes(HTMLAttributes, { 'data-type': 'diagram' }), 0];
+  },
+
+  addCommands() {
+    return {
+      setDiagram: () => ({ commands }) => commands.setNode(this.name),
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return sourceBlockShortcuts(this.type);
+  },
+
+  addProseMirrorPlugins() {
+    return [sourceEditingPlugin(this.type)];
+  },
+
+  addNodeView() {
+    return ({ node: initialNode, editor, getPos }: NodeViewRendererProps) => {
+      let node = initialNode;
+
+      const dom = document.createElement('div');
+      dom.className = 'diagram-block';
+
+      const source = document.createElement('pre');
+      source.className = 'diagram-block-source';
+      source.spellcheck = false;
+
+      const preview = document.createElement('div');
+      preview.className = 'diagram-block-preview';
+      preview.contentEditable = 'false';
+
+      // Clicking the diagram puts the caret at the end of its source
+      preview.addEventListener('mousedown', event => {
+        if (!editor.isEditable || typeof getPos !== 'function') {
+          return;
+        }
+        event.preventDefault();
+        const position = getPos();
+        if (typeof position === 'number') {
+          editor.chain().focus().setTextSelection(position + node.nodeSize - 1).run();
+        }
+      });
+
+      // Renders finish out of order; only the latest source is shown
+      let rendered: string | null = null;
+      let renderId = 0;
+      let renderTimeout: ReturnType<typeof setTimeout> | undefined;
+
+      const showPreview = (text: string) => {
+        const id = ++renderId;
+        preview.classList.remove('diagram-error', 'diagram-empty');
+        if (!text.trim()) {
+          preview.classList.add('diagram-empty');
+          preview.textContent = 'Empty diagram — write Mermaid source, e.g. "flowchart LR; A --> B"';
+          return;
+        }
+        renderDiagram(text).then(svg => {
+          if (id === renderId) {
+            preview.innerHTML = svg;
+          }
+        }).catch(error => {
+          if (id === renderId) {
+            preview.classList.add('diagram-error');
+            preview.textContent = error instanceof Error ? error.message : String(error);
+          }
+        });
+      };
+
+      const sync = () => {
+        const text = node.textContent;
+        dom.classList.toggle('is-empty', node.content.size === 0);
+        if (text === rendered) {
+          return;
+        }
+        // The first render is immediate; edits wait for a pause in typing
+        clearTimeout(renderTimeout);
+        if (rendered === null) {
+          showPreview(text);
+        } else {
+          renderTimeout = setTimeout(() => showPreview(text), PREVIEW_DELAY_MS);
+        }
+        rendered = text;
+      };
+
+      sync();
+      dom.append(source, preview);
+
+      return {
+        dom,
+        contentDOM: source,
+        update: updated => {
+          if (updated.type !== node.type) {
+            return false;
+          }
+          node = updated;
+          sync();
+          return true;
+        },
+        stopEvent: (event: Event) => preview.contains(event.target as globalThis.Node),
+        ignoreMutation: (mutation) =>
+          (mutation.type === 'attributes' && mutation.target === dom) ||
+          (mutation.type !== 'selection' && preview.contains(mutation.target)),
+        destroy: () => {
+          clearTimeout(renderTimeout);
+          renderId += 1;
+        },
+      };
+    };
+  },
+});
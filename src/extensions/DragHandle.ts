@@ -0,0 +1,147 @@
+import { Extension } from '@tiptap/core';
+import { NodeSelection, Plugin, PluginKey } from '@tiptap/pm/state';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { EditorView } from '@tiptap/pm/view';
+
+const HANDLE_WIDTH = 20;
+
+const ITEMS = ['listItem', 'taskItem'];
+const CONTAINERS = ['toggle', 'blockquote', 'callout', 'blockGroup', ...ITEMS];
+
+const isChildSlot = (parent: ProseMirrorNode, index: number) =>
+  parent.type.name === 'doc' || (CONTAINERS.includes(parent.type.name) && index > 0);
+
+// The block under the pointer that the handle drags: a list item, or a node
+// directly in the document or among a container's or item's children
+function blockAt(view: EditorView, x: number, y: number): number | null {
+  const hit = view.posAtCoords({ left: x, top: y });
+  if (!hit) {
+    return null;
+  }
+  const { doc } = view.state;
+  // Atoms such as images have no position inside them to resolve
+  const atom = hit.inside >= 0 ? doc.nodeAt(hit.inside) : null;
+  if (atom?.isBlock && atom.isAtom) {
+    const $atom = doc.resolve(hit.inside);
+    if (isChildSlot($atom.parent, $atom.index())) {
+      return hit.inside;
+    }
+  }
+  const $pos = doc.resolve(hit.pos);
+  for (let depth = $pos.depth; depth > 0; depth -= 1) {
+    if (ITEMS.includes($pos.node(depth).type.name) || isChildSlot($pos.node(depth - 1), $pos.index(depth - 1))) {
+      return $pos.before(depth);
+    }
+  }
+  return null;
+}
+
+// A grip shown left of the hovered block. Dragging it moves the block with
+// everything nested inside it; ids travel with the nodes and `order` and
+// `children` are recomputed from the document when the note is saved.
+export const DragHandle = Extension.create({
+  name: 'dragHandle',
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        key: new PluginKey('dragHandle'),
+        view: view => {
+          const handle = document.createElement('div');
+          handle.className = 'drag-handle';
+          handle.draggable = true;
+          handle.title = 'Drag to move';
+          handle.textContent = '⠿';
+          handle.hidden = true;
+          view.dom.parentElement?.append(handle);
+
+          let blockPos: number | null = null;
+
+          const hide = () => {
+            handle.hidden = true;
+            blockPos = null;
+          };
+
+          const show = (pos: number) => {
+            const dom = view.nodeDOM(pos);
+            const offsetParent = handle.offsetParent ?? view.dom.parentElement;
+            if (!(dom instanceof HTMLElement) || !offsetParent) {
+              hide();
+              return;
+            }
+            blockPos = pos;
+            handle.hidden = false;
+            const rect = dom.getBoundingClientRect();
+            const parentRect = offsetParent.getBoundingClientRect();
+            handle.style.top = `${rect.top - parentRect.top + offsetParent.scrollTop}px`;
+            handle.style.left = `${rect.left - parentRect.left - HANDLE_WIDTH - 4}px`;
+          };
+
+          const onMouseMove = (event: MouseEvent) => {
+            if (!view.editable) {
+              return;
+            }
+            const pos = blockAt(view, event.clientX, event.clientY);
+            if (pos === null) {
+              hide();
+            } else if (pos !== blockPos) {
+              show(pos);
+            }
+          };
+
+          // Leaving the text for the handle itself keeps it visible
+          const onMouseLeave = (event: MouseEvent) => {
+            if (event.relatedTarget !== handle) {
+              hide();
+            }
+          };
+          const onHandleLeave = (event: MouseEvent) => {
+            if (!view.dom.contains(event.relatedTarget as Node | null)) {
+              hide();
+            }
+          };
+
+          const onDragStart = (event: DragEvent) => {
+            if (blockPos === null || !event.dataTransfer) {
+              return;
+            }
+            const selection = NodeSelection.create(view.state.doc, blockPos);
+            view.dispatch(view.state.tr.setSelection(selection));
+            const slice = selection.content();
+            const { dom, text } = view.serializeForClipboard(slice);
+            event.dataTransfer.clearData();
+            event.dataTransfer.setData('text/html', dom.innerHTML);
+            event.dataTransfer.setData('text/plain', text);
+            event.dataTransfer.effectAllowed = 'copyMove';
+            const blockDom = view.nodeDOM(blockPos);
+            if (blockDom instanceof HTMLElement) {
+              event.dataTransfer.setDragImage(blockDom, 0, 0);
+            }
+            // ProseMirror's drop handler deletes the selection and inserts the slice
+            view.dragging = { slice, move: true };
+          };
+
+          view.dom.addEventListener('mousemove', onMouseMove);
+          view.dom.addEventListener('mouseleave', onMouseLeave);
+          handle.addEventListener('mouseleave', onHandleLeave);
+          handle.addEventListener('dragstart', onDragStart);
+          handle.addEventListener('dragend', hide);
+
+          return {
+            update: (_view, previousState) => {
+              // Positions shift when the document changes underneath the handle
+              if (!view.state.doc.eq(previousState.doc)) {
+                hide();
+              }
+            },
+            destroy: () => {
+              view.dom.removeEventListener('mousemove', onMouseMove);
+              view.dom.removeEventListener('mouseleave', onMouseLeave);
+              handle.remove();
+            },
+          };
+        },
+      }),
+    ];
+  },
+});
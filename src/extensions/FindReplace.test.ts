@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Editor } from '@tiptap/core';
+import StarterKit from '@tiptap/starter-kit';
+import { FindOptions, FindReplace, findReplaceKey } from './FindReplace';
+
+// Matches are scrolled into view, which jsdom doesn't implement
+Element.prototype.scrollIntoView = () => undefined;
+
+const PLAIN: FindOptions = { caseSensitive: false, wholeWord: false, regex: false };
+const REGEX: FindOptions = { ...PLAIN, regex: true };
+
+const createEditor = (content: string) => new Editor({
+  element: document.createElement('div'),
+  extensions: [StarterKit, FindReplace],
+  content,
+});
+
+const findState = (editor: Editor) => findReplaceKey.getState(editor.state)!;
+
+// The matched text, for readable expectations
+const matchedText = (editor: Editor) =>
+  findState(editor).matches.map(({ from, to }) => editor.state.doc.textBetween(from, to));
+
+describe('FindReplace', () => {
+  let editor: Editor | null = null;
+  afterEach(() => {
+    editor?.destroy();
+    editor = null;
+  });
+
+  it('accepts escapes that only unicode regular expressions reject', () => {
+    editor = createEditor('<p>foo-bar and a:b</p>');
+    editor.commands.setFindQuery('foo\\-bar|a\\:b', REGEX);
+    expect(findState(editor).error).toBeNull();
+    expect(matchedText(editor)).toEqual(['foo-bar', 'a:b']);
+  });
+
+  it('matches whole words in any script', () => {
+    editor = createEditor('<p>café cafés Café</p>');
+    editor.commands.setFindQuery('café', { ...PLAIN, wholeWord: true });
+    expect(matchedText(editor)).toEqual(['café', 'Café']);
+  });
+
+  it('reports an invalid regular expression', () => {
+    editor = createEditor('<p>text</p>');
+    editor.commands.setFindQuery('(', REGEX);
+    expect(findState(editor).error).not.toBeNull();
+    expect(findState(editor).matches).toEqual([]);
+  });
+
+  it('skips empty matches', () => {
+    editor = createEditor('<p>baab</p><p>b</p>');
+    editor.commands.setFindQuery('a*', REGEX);
+    expect(matchedText(editor)).toEqual(['aa']);
+    editor.commands.setFindQuery('^', REGEX);
+    expect(findState(editor).matches).toEqual([]);
+    expect(findState(editor).error).toBeNull();
+  });
+
+  it('fills in groups when replacing a regular expression match', () => {
+    editor = createEditor('<p>John Smith, Jane Doe</p>');
+    editor.commands.setTextSelection(1);
+    editor.commands.setFindQuery('(\\w+) (\\w+)', REGEX);
+    editor.commands.replaceMatch('$2 $1');
+    expect(editor.getText()).toBe('Smith John, Jane Doe');
+    // The replacement is not matched again; the next match is
+    editor.commands.replaceMatch('$2 $1');
+    expect(editor.getText()).toBe('Smith John, Doe Jane');
+  });
+
+  it('re-runs a regular expression in its match\'s context', () => {
+    editor = createEditor('<p>#one two #three</p>');
+    editor.commands.setFindQuery('(?<=#)(\\w+)', REGEX);
+    expect(matchedText(editor)).toEqual(['one', 'three']);
+    editor.commands.replaceAllMatches('[$1]');
+    expect(editor.getText()).toBe('#[one] two #[three]');
+  });
+
+  it('replaces every match in one undoable step', () => {
+    editor = createEditor('<p>cat cat</p><p>Cat</p>');
+    editor.commands.setFindQuery('cat', PLAIN);
+    editor.commands.replaceAllMatches('dog');
+    expect(editor.getText({ blockSeparator: '|' })).toBe('dog dog|dog');
+    editor.commands.undo();
+    expect(editor.getText({ blockSeparator: '|' })).toBe('cat cat|Cat');
+  });
+});
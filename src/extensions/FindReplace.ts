@@ -0,0 +1,251 @@
+import { CommandProps, Extension } from '@tiptap/core';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { EditorState, Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+
+export interface FindOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  // The query is a JavaScript regular expression, and replacements may use
+  // `$1`, `$<name>` and `$&`
+  regex: boolean;
+}
+
+export interface FindMatch {
+  from: number;
+  to: number;
+}
+
+export interface FindState {
+  query: string;
+  options: FindOptions;
+  matches: FindMatch[];
+  // Index into `matches`; 0 when there are none
+  current: number;
+  // Set when the query is not a valid regular expression
+  error: string | null;
+  decorations: DecorationSet;
+  // The current match changed through the find bar rather than by editing,
+  // so it is scrolled into view
+  reveal: boolean;
+}
+
+// Updates from the commands: a new query, or another current match, given
+// directly or as the first one at or after `from`
+interface FindMeta {
+  query?: string;
+  options?: FindOptions;
+  current?: number;
+  from?: number;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    findReplace: {
+      // Highlights every match; the current one is the first after the caret
+      setFindQuery: (query: string, options: FindOptions) => ReturnType;
+      // Step through the matches, wrapping around at either end
+      findNext: () => ReturnType;
+      findPrevious: () => ReturnType;
+      // Replace the current match, then move on to the next one
+      replaceMatch: (replacement: string) => ReturnType;
+      // Replaces every match in one undoable step
+      replaceAllMatches: (replacement: string) => ReturnType;
+      clearFind: () => ReturnType;
+    };
+  }
+}
+
+export const findReplaceKey = new PluginKey<FindState>('findReplace');
+
+const NO_OPTIONS: FindOptions = { caseSensitive: false, wholeWord: false, regex: false };
+
+// Letters, digits and `_` in any script count as word characters
+const WORD_CHAR = '[\\p{L}\\p{N}_]';
+
+// Throws a SyntaxError for an invalid regular expression. Only whole-word
+// matching turns on the `u` flag, which WORD_CHAR needs: it also rejects
+// escapes such as `\-` that plain regular expressions accept.
+const buildPattern = (query: string, options: FindOptions, flags = 'g') => {
+  let source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  if (options.wholeWord) {
+    source = `(?<!${WORD_CHAR})(?:${source})(?!${WORD_CHAR})`;
+  }
+  return new RegExp(source, `${flags}${options.wholeWord ? 'u' : ''}${options.caseSensitive ? '' : 'i'}`);
+};
+
+// Inline nodes such as equations count as one character, so offsets in a
+// textblock's text are offsets in the document too
+const textOf = (block: ProseMirrorNode) => block.textBetween(0, block.content.size, undefined, '\ufffc');
+
+// Matches never cross textblocks; empty matches (e.g. of `^` or `a*`) are
+// skipped as there is nothing to highlight or replace
+function findMatches(doc: ProseMirrorNode, query: string, options: FindOptions) {
+  const matches: FindMatch[] = [];
+  if (!query) {
+    return { matches, error: null };
+  }
+  let pattern: RegExp;
+  try {
+    pattern = buildPattern(query, options);
+  } catch (error) {
+    return { matches, error: error instanceof Error ? error.message : String(error) };
+  }
+  doc.descendants((node, pos) => {
+    if (!node.isTextblock) {
+      return true;
+    }
+    for (const match of textOf(node).matchAll(pattern)) {
+      if (match[0]) {
+        const from = pos + 1 + match.index!;
+        matches.push({ from, to: from + match[0].length });
+      }
+    }
+    return false;
+  });
+  return { matches, error: null };
+}
+
+// The text a match is replaced with. Regular expressions are re-run on the
+// match's whole textblock, so lookarounds and `^`/`$` see the same context
+// as when the match was found.
+function replacementFor(state: EditorState, find: FindState, match: FindMatch, replacement: string) {
+  if (!find.options.regex) {
+    return replacement;
+  }
+  const $from = state.doc.resolve(match.from);
+  const text = textOf($from.parent);
+  const offset = match.from - $from.start();
+  const pattern = buildPattern(find.query, find.options, 'y');
+  pattern.lastIndex = offset;
+  const replaced = text.replace(pattern, replacement);
+  return replaced.slice(offset, replaced.length - (text.length - offset - (match.to - match.from)));
+}
+
+function decorate(doc: ProseMirrorNode, matches: FindMatch[], current: number) {
+  return DecorationSet.create(doc, matches.map((match, index) =>
+    Decoration.inline(match.from, match.to, {
+      class: index === current ? 'find-match find-match-current' : 'find-match',
+    }),
+  ));
+}
+
+const setMeta = (meta: FindMeta) => ({ tr, dispatch }: CommandProps) => {
+  if (dispatch) {
+    tr.setMeta(findReplaceKey, meta);
+  }
+  return true;
+};
+
+export const FindReplace = Extension.create({
+  name: 'findReplace',
+
+  addCommands() {
+    const stateOf = (state: EditorState) => findReplaceKey.getState(state);
+    const step = (direction: 1 | -1) => () => (props: CommandProps) => {
+      const find = stateOf(props.state);
+      if (!find || find.matches.length === 0) {
+        return false;
+      }
+      const count = find.matches.length;
+      return setMeta({ current: (find.current + direction + count) % count })(props);
+    };
+
+    return {
+      setFindQuery: (query, options) => props =>
+        setMeta({ query, options, from: props.state.selection.from })(props),
+      findNext: step(1),
+      findPrevious: step(-1),
+      replaceMatch: replacement => ({ state, tr, dispatch }) => {
+        const find = stateOf(state);
+        const match = find?.matches[find.current];
+        if (!find || !match) {
+          return false;
+        }
+        if (dispatch) {
+          const text = replacementFor(state, find, match, replacement);
+          tr.insertText(text, match.from, match.to);
+          // Continue after the replacement, so it is not matched again
+          tr.setMeta(findReplaceKey, { from: match.from + text.length } satisfies FindMeta);
+        }
+        return true;
+      },
+      replaceAllMatches: replacement => ({ state, tr, dispatch }) => {
+        const find = stateOf(state);
+        if (!find || find.matches.length === 0) {
+          return false;
+        }
+        if (dispatch) {
+          // Last to first, so earlier matches' positions stay valid
+          const texts = find.matches.map(match => replacementFor(state, find, match, replacement));
+          for (let i = find.matches.length - 1; i >= 0; i--) {
+            tr.insertText(texts[i], find.matches[i].from, find.matches[i].to);
+          }
+        }
+        return true;
+      },
+      clearFind: () => setMeta({ query: '', options: NO_OPTIONS }),
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<FindState>({
+        key: findReplaceKey,
+        state: {
+          init: () => ({
+            query: '',
+            options: NO_OPTIONS,
+            matches: [],
+            current: 0,
+            error: null,
+            decorations: DecorationSet.empty,
+            reveal: false,
+          }),
+          apply: (tr, find, _oldState, newState) => {
+            const meta = tr.getMeta(findReplaceKey) as FindMeta | undefined;
+            if (!meta && !tr.docChanged) {
+              return find;
+            }
+            if (meta?.current !== undefined) {
+              const decorations = decorate(newState.doc, find.matches, meta.current);
+              return { ...find, current: meta.current, decorations, reveal: true };
+            }
+            const query = meta?.query ?? find.query;
+            const options = meta?.options ?? find.options;
+            const { matches, error } = findMatches(newState.doc, query, options);
+            // Edits keep the current match, or move to the one after it
+            const previous = find.matches[find.current];
+            const from = meta?.from ?? (previous ? tr.mapping.map(previous.from) : 0);
+            const after = matches.findIndex(match => match.from >= from);
+            const current = after === -1 ? 0 : after;
+            return {
+              query,
+              options,
+              matches,
+              current,
+              error,
+              decorations: decorate(newState.doc, matches, current),
+              reveal: meta !== undefined,
+            };
+          },
+        },
+        props: {
+          decorations: state => findReplaceKey.getState(state)?.decorations,
+        },
+        view: () => ({
+          update: (view, prevState) => {
+            const find = findReplaceKey.getState(view.state);
+            const match = find?.matches[find.current];
+            if (!find?.reveal || !match || find === findReplaceKey.getState(prevState)) {
+              return;
+            }
+            const { node } = view.domAtPos(match.from);
+            const element = node instanceof Element ? node : node.parentElement;
+            element?.scrollIntoView({ block: 'center' });
+          },
+        }),
+      }),
+    ];
+  },
+});
@@ -0,0 +1,291 @@
+import Image, { ImageOptions } from '@tiptap/extension-image';
+import { Editor, NodeViewRendererProps } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Image as ImageIcon } from 'lucide-react';
+import { AttachmentStore } from '../lib/attachments';
+import { registerSlashCommand } from './SlashCommand';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    imageBlock: {
+      // Opens a file picker and inserts the chosen images at the selection
+      pickImageFiles: () => ReturnType;
+    };
+  }
+}
+
+export interface ImageBlockOptions extends ImageOptions {
+  // Where pasted, dropped and picked images are copied to. Without it images
+  // can only come from URLs.
+  attachments?: AttachmentStore;
+  onError?: (error: unknown) => void;
+}
+
+const MIN_WIDTH = 48;
+
+const ALIGNMENTS = [
+  { value: 'left', title: 'Align left' },
+  { value: 'center', title: 'Align center' },
+  { value: 'right', title: 'Align right' },
+] as const;
+
+const imageFiles = (files: FileList | null | undefined) =>
+  Array.from(files ?? []).filter(file => file.type.startsWith('image/'));
+
+// Copies each file into the vault and inserts an image block for it at the
+// current selection, one after another so they keep their order.
+async function insertImageFiles(editor: Editor, files: File[], options: ImageBlockOptions) {
+  if (!options.attachments) {
+    return;
+  }
+  for (const file of files) {
+    try {
+      const src = await options.attachments.import(file);
+      if (editor.isDestroyed) {
+        return;
+      }
+      editor.chain().focus().setImage({ src }).run();
+    } catch (error) {
+      options.onError?.(error);
+    }
+  }
+}
+
+registerSlashCommand({
+  id: 'image',
+  title: 'Image',
+  description: 'Upload an image from your computer',
+  icon: ImageIcon,
+  keywords: ['picture', 'photo', 'upload'],
+  run: ({ editor, range }) => editor.chain().focus().deleteRange(range).pickImageFiles().run(),
+});
+
+// Image blocks stored as vault attachments, with a caption, alignment and
+// drag handles to resize. Width, alignment and caption are saved on the
+// `image` block (see blocks.ts).
+export const ImageBlock = Image.extend<ImageBlockOptions>({
+  addOptions() {
+    return {
+      ...this.parent!(),
+      attachments: undefined,
+      onError: undefined,
+    };
+  },
+
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      width: {
+        default: null,
+        parseHTML: element => Number(element.getAttribute('width')) || null,
+        renderHTML: attributes => (attributes.width ? { width: attributes.width } : {}),
+      },
+      align: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-align'),
+        renderHTML: attributes => (attributes.align ? { 'data-align': attributes.align } : {}),
+      },
+      caption: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-caption'),
+        renderHTML: attributes => (attributes.caption ? { 'data-caption': attributes.caption } : {}),
+      },
+    };
+  },
+
+  addCommands() {
+    return {
+      ...this.parent?.(),
+      pickImageFiles: () => ({ editor }) => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = 'image/*';
+        input.multiple = true;
+        input.addEventListener('change', () => {
+          insertImageFiles(editor, imageFiles(input.files), this.options);
+        });
+        input.click();
+        return true;
+      },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const { editor, options } = this;
+    return [
+      new Plugin({
+        key: new PluginKey('imageFiles'),
+        props: {
+          handlePaste: (_view, event) => {
+            const files = imageFiles(event.clipboardData?.files);
+            if (files.length === 0 || !options.attachments) {
+              return false;
+            }
+            event.preventDefault();
+            insertImageFiles(editor, files, options);
+            return true;
+          },
+          handleDrop: (view, event) => {
+            const files = imageFiles(event.dataTransfer?.files);
+            if (files.length === 0 || !options.attachments) {
+              return false;
+            }
+            event.preventDefault();
+            const target = view.posAtCoords({ left: event.clientX, top: event.clientY });
+            if (target) {
+              editor.commands.setTextSelection(target.pos);
+            }
+            insertImageFiles(editor, files, options);
+            return true;
+          },
+        },
+      }),
+    ];
+  },
+
+  addNodeView() {
+    const { options } = this;
+    // Without an attachment store every src is loaded as is
+    const resolve = options.attachments?.resolve ?? ((src: string) => Promise.resolve(src));
+
+    return ({ node: initialNode, editor, getPos }: NodeViewRendererProps) => {
+      let node = initialNode;
+
+      const figure = document.createElement('figure');
+      figure.className = 'image-block';
+
+      const frame = document.createElement('div');
+      frame.className = 'image-block-frame';
+
+      const img = document.createElement('img');
+      img.draggable = false;
+
+      const toolbar = document.createElement('div');
+      toolbar.className = 'image-block-toolbar';
+      toolbar.contentEditable = 'false';
+
+      const handles = (['left', 'right'] as const).map(side => {
+        const handle = document.createElement('span');
+        handle.className = `image-block-handle image-block-handle-${side}`;
+        handle.contentEditable = 'false';
+        handle.dataset.side = side;
+        return handle;
+      });
+
+      const caption = document.createElement('input');
+      caption.className = 'image-block-caption';
+      caption.placeholder = 'Add a caption';
+
+      const updateAttributes = (attrs: Record<string, unknown>) => {
+        if (!editor.isEditable || typeof getPos !== 'function') {
+          return;
+        }
+        editor.chain().command(({ tr }) => {
+          const position = getPos();
+          if (typeof position !== 'number') {
+            return false;
+          }
+          tr.setNodeMarkup(position, undefined, { ...node.attrs, ...attrs });
+          return true;
+        }).run();
+      };
+
+      ALIGNMENTS.forEach(({ value, title }) => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.title = title;
+        button.dataset.align = value;
+        button.textContent = value[0].toUpperCase();
+        button.addEventListener('mousedown', event => event.preventDefault());
+        button.addEventListener('click', () => updateAttributes({ align: value === 'left' ? null : value }));
+        toolbar.append(button);
+      });
+
+      // Committed on blur or Enter; writing on every keystroke would have
+      // ProseMirror pull the DOM selection back out of the input
+      caption.addEventListener('change', () => updateAttributes({ caption: caption.value || null }));
+      caption.addEventListener('keydown', event => {
+        // Enter leaves the caption for a new paragraph below the image
+        if (event.key === 'Enter' && typeof getPos === 'function') {
+          event.preventDefault();
+          const position = getPos();
+          if (typeof position === 'number') {
+            editor.chain().focus().insertContentAt(position + node.nodeSize, { type: 'paragraph' }).run();
+          }
+        }
+      });
+
+      // Resizing follows the pointer; centered images grow on both sides so
+      // the handle stays under it
+      handles.forEach(handle => {
+        handle.addEventListener('pointerdown', event => {
+          event.preventDefault();
+          const startX = event.clientX;
+          const startWidth = img.getBoundingClientRect().width;
+          const maxWidth = figure.getBoundingClientRect().width;
+          const direction = handle.dataset.side === 'left' ? -1 : 1;
+          const factor = node.attrs.align === 'center' ? 2 : 1;
+          let width = startWidth;
+
+          const onMove = (move: PointerEvent) => {
+            width = Math.min(maxWidth, Math.max(MIN_WIDTH, startWidth + (move.clientX - startX) * direction * factor));
+            frame.style.width = `${width}px`;
+          };
+          const onUp = () => {
+            window.removeEventListener('pointermove', onMove);
+            window.removeEventListener('pointerup', onUp);
+            updateAttributes({ width: Math.round(width) });
+          };
+          window.addEventListener('pointermove', onMove);
+          window.addEventListener('pointerup', onUp);
+        });
+      });
+
+      let src: string | null = null;
+      const sync = () => {
+        if (node.attrs.src !== src) {
+          src = node.attrs.src;
+          img.removeAttribute('src');
+          const requested = src;
+          resolve(src ?? '')
+            .then(url => {
+              if (requested === src) {
+                img.src = url;
+              }
+            })
+            .catch(error => options.onError?.(error));
+        }
+        img.alt = node.attrs.caption ?? node.attrs.alt ?? '';
+        frame.style.width = node.attrs.width ? `${node.attrs.width}px` : '';
+        figure.dataset.align = node.attrs.align ?? 'left';
+        toolbar.querySelectorAll('button').forEach(button => {
+          button.classList.toggle('is-active', button.dataset.align === figure.dataset.align);
+        });
+        if (document.activeElement !== caption) {
+          caption.value = node.attrs.caption ?? '';
+        }
+        caption.readOnly = !editor.isEditable;
+      };
+
+      sync();
+      frame.append(img, toolbar, ...handles);
+      figure.append(frame, caption);
+
+      return {
+        dom: figure,
+        update: updated => {
+          if (updated.type !== node.type) {
+            return false;
+          }
+          node = updated;
+          sync();
+          return true;
+        },
+        // The caption, buttons and handles manage their own events and DOM
+        stopEvent: (event: Event) =>
+          [toolbar, caption, ...handles].some(element => element.contains(event.target as Node)),
+        ignoreMutation: () => true,
+      };
+    };
+  },
+});
@@ -0,0 +1,48 @@
+import { Extension } from '@tiptap/core';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { INLINE_TAG } from '../lib/tags';
+
+// Highlights `#tag` words as they are typed. The tags themselves are picked
+// up from the saved blocks (see syncInlineTags); this is display only.
+const findTags = (doc: ProseMirrorNode): DecorationSet => {
+  const decorations: Decoration[] = [];
+  doc.descendants((node, pos) => {
+    if (!node.isTextblock) {
+      return true;
+    }
+    if (node.type.spec.code) {
+      return false;
+    }
+    // One placeholder character per inline leaf keeps offsets aligned with positions
+    const text = node.textBetween(0, node.content.size, undefined, '\ufffc');
+    for (const match of text.matchAll(INLINE_TAG)) {
+      const from = pos + 1 + match.index! + match[1].length;
+      decorations.push(Decoration.inline(from, from + match[2].length + 1, { class: 'inline-tag' }));
+    }
+    return false;
+  });
+  return DecorationSet.create(doc, decorations);
+};
+
+export const InlineTag = Extension.create({
+  name: 'inlineTag',
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        key: new PluginKey('inlineTag'),
+        state: {
+          init: (_, { doc }) => findTags(doc),
+          apply: (tr, decorations) => (tr.docChanged ? findTags(tr.doc) : decorations),
+        },
+        props: {
+          decorations(state) {
+            return this.getState(state);
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,44 @@
+import { Extension } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { blocksToHTML } from '../lib/blocks';
+import { markdownToBlocks } from '../lib/markdown';
+
+// Block syntax at the start of a line, or inline marks; text without any
+// pastes as it is
+const MARKDOWN_SYNTAX =
+  /^(?:#{1,6}\s|[-*+]\s|\d+[.)]\s|>|```|~~~|\$\$|\|.*\|\s*$|(?:-{3,}|\*{3,})\s*$)|\*\*\S|~~\S|`[^`\n]+`|\[[^\]\n]+\]\([^)\n]+\)/m;
+
+// Plain text that looks like Markdown is pasted as blocks instead of one
+// paragraph per line. Rich clipboard contents keep ProseMirror's own paste,
+// except from code editors such as VS Code, whose HTML is only highlighting.
+export const MarkdownPaste = Extension.create({
+  name: 'markdownPaste',
+
+  addProseMirrorPlugins() {
+    const { editor } = this;
+    return [
+      new Plugin({
+        key: new PluginKey('markdownPaste'),
+        props: {
+          handlePaste: (view, event) => {
+            const data = event.clipboardData;
+            const text = data?.getData('text/plain');
+            if (!data || !text || view.state.selection.$from.parent.type.spec.code) {
+              return false;
+            }
+            const isRich = data.types.includes('text/html') && !data.types.includes('vscode-editor-data');
+            if (isRich || !MARKDOWN_SYNTAX.test(text)) {
+              return false;
+            }
+            // Line breaks inside paragraphs are Markdown soft breaks, i.e. spaces
+            return editor.chain()
+              .deleteSelection()
+              .insertContent(blocksToHTML(markdownToBlocks(text)), { parseOptions: { preserveWhitespace: false } })
+              .scrollIntoView()
+              .run();
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,54 @@
+import { Extension, InputRule, textblockTypeInputRule } from '@tiptap/core';
+
+// A line that is only a code fence, e.g. "```" or "```python"
+const FENCE = /^```([\w+#.-]*)$/;
+
+// Markdown typed at the start of a line. StarterKit and the block extensions
+// already turn `# `, `- `, `1. `, `[ ] `, `> `, "```js " and `$$ ` into
+// blocks; this covers what they leave out: a bare fence followed by Enter,
+// "```mermaid " for diagrams, and `[ ] ` typed into a bullet item.
+export const MarkdownShortcuts = Extension.create({
+  name: 'markdownShortcuts',
+  // Ahead of the code block's "```lang " rule and the Enter handlers
+  priority: 110,
+
+  addKeyboardShortcuts() {
+    return {
+      Enter: ({ editor }) => {
+        const { empty, $from } = editor.state.selection;
+        const fence = FENCE.exec($from.parent.textContent);
+        if (!empty || !fence || $from.parent.type.name !== 'paragraph' || $from.parentOffset !== $from.parent.content.size) {
+          return false;
+        }
+        const language = fence[1];
+        return editor.chain()
+          .deleteRange({ from: $from.start(), to: $from.end() })
+          .setNode(language === 'mermaid' ? 'diagram' : 'codeBlock', language && language !== 'mermaid' ? { language } : {})
+          .run();
+      },
+    };
+  },
+
+  addInputRules() {
+    const { diagram } = this.editor.schema.nodes;
+    return [
+      ...(diagram ? [textblockTypeInputRule({ find: /^```mermaid[\s\n]$/, type: diagram })] : []),
+      // `[ ] ` or `[x] ` at the start of a bullet item makes it a todo
+      new InputRule({
+        find: /^\s*\[([ xX])?\]\s$/,
+        handler: ({ state, range, match, chain }) => {
+          const $from = state.doc.resolve(range.from);
+          if ($from.depth < 2 || $from.node(-1).type.name !== 'listItem' || $from.index(-1) !== 0) {
+            return null;
+          }
+          chain()
+            .deleteRange(range)
+            .liftListItem('listItem')
+            .toggleTaskList()
+            .updateAttributes('taskItem', { checked: match[1]?.toLowerCase() === 'x' })
+            .run();
+        },
+      }),
+    ];
+  },
+});
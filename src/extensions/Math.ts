@@ -0,0 +1,323 @@
+import { InputRule, Node, NodeViewRendererProps, mergeAttributes, textblockTypeInputRule } from '@tiptap/core';
+import { NodeSelection, TextSelection } from '@tiptap/pm/state';
+import katex from 'katex';
+import { Radical, Sigma } from 'lucide-react';
+import { sourceBlockShortcuts, sourceEditingPlugin } from './SourceBlock';
+import { registerSlashCommand } from './SlashCommand';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    math: {
+      // Turns the current paragraph into a block equation
+      setMathBlock: () => ReturnType;
+      // Inserts an inline equation and opens it for editing
+      insertInlineMath: (latex?: string) => ReturnType;
+    };
+  }
+}
+
+// Renders with the KaTeX bundled into the app, so equations work offline.
+// Invalid LaTeX shows its source and the parser's message instead.
+function renderMath(element: HTMLElement, latex: string, displayMode: boolean) {
+  element.classList.remove('math-error', 'math-empty');
+  element.removeAttribute('title');
+  if (!latex.trim()) {
+    element.classList.add('math-empty');
+    element.textContent = displayMode ? 'Empty equation' : 'New equation';
+    return;
+  }
+  try {
+    katex.render(latex, element, { displayMode, throwOnError: true });
+  } catch (error) {
+    element.classList.add('math-error');
+    element.textContent = latex;
+    element.title = error instanceof Error ? error.message : String(error);
+  }
+}
+
+// `$x^2$` typed in text, not preceded by another `$` or a backslash; the
+// formula may not start or end with a space, so prices like "$5 and $10"
+// stay text
+const INLINE_MATH_INPUT = /(^|[^$\\])\$([^\s$](?:[^$]*[^\s$])?)\$$/;
+
+registerSlashCommand({
+  id: 'math',
+  title: 'Block equation',
+  description: 'Display a LaTeX formula',
+  icon: Sigma,
+  keywords: ['math', 'latex', 'formula', 'tex'],
+  run: ({ editor, range }) => editor.chain().focus().deleteRange(range).setMathBlock().run(),
+});
+
+registerSlashCommand({
+  id: 'inlineMath',
+  title: 'Inline equation',
+  description: 'Add a LaTeX formula to the text',
+  icon: Radical,
+  keywords: ['math', 'latex', 'formula', 'tex'],
+  run: ({ editor, range }) => editor.chain().focus().deleteRange(range).insertInlineMath().run(),
+});
+
+// A `math` block: the LaTeX source is the node's text, shown while the caret
+// is inside it, with the rendered equation below.
+export const MathBlock = Node.create({
+  name: 'mathBlock',
+  group: 'block',
+  content: 'text*',
+  marks: '',
+  code: true,
+  defining: true,
+
+  parseHTML() {
+    return [{ tag: 'div[data-type="math"]', preserveWhitespace: 'full' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes(HTMLAttributes, { 'data-type': 'math' }), 0];
+  },
+
+  addCommands() {
+    return {
+      setMathBlock: () => ({ commands }) => commands.setNode(this.name),
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return sourceBlockShortcuts(this.type);
+  },
+
+  addInputRules() {
+    return [textblockTypeInputRule({ find: /^\$\$\s$/, type: this.type })];
+  },
+
+  addProseMirrorPlugins() {
+    return [sourceEditingPlugin(this.type)];
+  },
+
+  addNodeView() {
+    return ({ node: initialNode, editor, getPos }: NodeViewRendererProps) => {
+      let node = initialNode;
+
+      const dom = document.createElement('div');
+      dom.className = 'math-block';
+
+      const source = document.createElement('pre');
+      source.className = 'math-block-source';
+      source.spellcheck = false;
+
+      const preview = document.createElement('div');
+      preview.className = 'math-block-preview';
+      preview.contentEditable = 'false';
+
+      // Clicking the equation puts the caret at the end of its source
+      preview.addEventListener('mousedown', event => {
+        if (!editor.isEditable || typeof getPos !== 'function') {
+          return;
+        }
+        event.preventDefault();
+        const position = getPos();
+        if (typeof position === 'number') {
+          editor.chain().focus().setTextSelection(position + node.nodeSize - 1).run();
+        }
+      });
+
+      const sync = () => {
+        renderMath(preview, node.textContent, true);
+        dom.classList.toggle('is-empty', node.content.size === 0);
+      };
+
+      sync();
+      dom.append(source, preview);
+
+      return {
+        dom,
+        contentDOM: source,
+        update: updated => {
+          if (updated.type !== node.type) {
+            return false;
+          }
+          node = updated;
+          sync();
+          return true;
+        },
+        stopEvent: (event: Event) => preview.contains(event.target as globalThis.Node),
+        ignoreMutation: (mutation) =>
+          (mutation.type === 'attributes' && mutation.target === dom) ||
+          (mutation.type !== 'selection' && preview.contains(mutation.target)),
+      };
+    };
+  },
+});
+
+// An equation inside text, kept in the block's inline HTML as
+// `<span data-type="inlineMath" data-latex="...">`. Selecting it swaps the
+// rendering for an input holding the source.
+export const InlineMath = Node.create({
+  name: 'inlineMath',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return {
+      latex: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-latex') ?? element.textContent ?? '',
+        renderHTML: attributes => ({ 'data-latex': attributes.latex }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-type="inlineMath"]' }];
+  },
+
+  // The source doubles as the text, so search and plain text still see it
+  renderHTML({ node, HTMLAttributes }) {
+    return ['span', mergeAttributes(HTMLAttributes, { 'data-type': 'inlineMath' }), node.attrs.latex];
+  },
+
+  renderText({ node }) {
+    return `$${node.attrs.latex}$`;
+  },
+
+  addCommands() {
+    return {
+      insertInlineMath: (latex = '') => ({ tr, dispatch }) => {
+        if (dispatch) {
+          const pos = tr.selection.from;
+          tr.replaceSelectionWith(this.type.create({ latex }), false);
+          tr.setSelection(NodeSelection.create(tr.doc, pos));
+        }
+        return true;
+      },
+    };
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: INLINE_MATH_INPUT,
+        handler: ({ state, range, match }) => {
+          const from = range.from + match[1].length;
+          state.tr.replaceWith(from, range.to, this.type.create({ latex: match[2] }));
+        },
+      }),
+    ];
+  },
+
+  addNodeView() {
+    return ({ node: initialNode, editor, getPos }: NodeViewRendererProps) => {
+      let node = initialNode;
+
+      const dom = document.createElement('span');
+      dom.className = 'inline-math';
+
+      const preview = document.createElement('span');
+
+      const input = document.createElement('input');
+      input.className = 'inline-math-input';
+      input.spellcheck = false;
+      input.placeholder = 'LaTeX';
+      input.hidden = true;
+
+      const position = () => (typeof getPos === 'function' ? getPos() : undefined);
+
+      const resizeInput = () => {
+        input.size = Math.max(4, input.value.length + 1);
+      };
+
+      // Saves the input's source; an emptied equation is removed
+      const commit = () => {
+        if (input.hidden) {
+          return;
+        }
+        input.hidden = true;
+        preview.hidden = false;
+        const latex = input.value.trim();
+        const pos = position();
+        if (typeof pos !== 'number' || latex === node.attrs.latex) {
+          return;
+        }
+        editor.chain().command(({ tr }) => {
+          if (latex) {
+            tr.setNodeAttribute(pos, 'latex', latex);
+          } else {
+            tr.delete(pos, pos + node.nodeSize);
+          }
+          return true;
+        }).run();
+      };
+
+      // Commits and puts the caret before or after the equation
+      const leave = (side: -1 | 1) => {
+        commit();
+        const pos = position();
+        if (typeof pos !== 'number') {
+          return;
+        }
+        editor.chain().focus().command(({ tr }) => {
+          const after = tr.doc.nodeAt(pos)?.type === node.type ? pos + node.nodeSize : pos;
+          tr.setSelection(TextSelection.create(tr.doc, side < 0 ? pos : after));
+          return true;
+        }).run();
+      };
+
+      input.addEventListener('input', resizeInput);
+      input.addEventListener('blur', commit);
+      input.addEventListener('keydown', event => {
+        if (event.key === 'Enter' || event.key === 'Tab') {
+          event.preventDefault();
+          leave(1);
+        } else if (event.key === 'Escape') {
+          event.preventDefault();
+          input.value = node.attrs.latex;
+          leave(1);
+        } else if (event.key === 'ArrowLeft' && input.selectionStart === 0 && input.selectionEnd === 0) {
+          event.preventDefault();
+          leave(-1);
+        } else if (event.key === 'ArrowRight' && input.selectionStart === input.value.length) {
+          event.preventDefault();
+          leave(1);
+        }
+      });
+
+      renderMath(preview, node.attrs.latex, false);
+      dom.append(preview, input);
+
+      return {
+        dom,
+        update: updated => {
+          if (updated.type !== node.type) {
+            return false;
+          }
+          node = updated;
+          if (input.hidden) {
+            renderMath(preview, node.attrs.latex, false);
+          }
+          return true;
+        },
+        selectNode: () => {
+          dom.classList.add('ProseMirror-selectednode');
+          if (!editor.isEditable) {
+            return;
+          }
+          input.value = node.attrs.latex;
+          resizeInput();
+          input.hidden = false;
+          preview.hidden = true;
+          input.focus();
+          input.select();
+        },
+        deselectNode: () => {
+          dom.classList.remove('ProseMirror-selectednode');
+          // Not mid-update: committing dispatches a transaction of its own
+          setTimeout(commit);
+        },
+        stopEvent: (event: Event) => event.target === input,
+        ignoreMutation: () => true,
+      };
+    };
+  },
+});
@@ -0,0 +1,141 @@
+import { Node, NodeViewRendererProps, mergeAttributes } from '@tiptap/core';
+import Suggestion from '@tiptap/suggestion';
+import { PluginKey } from '@tiptap/pm/state';
+import { FileText } from 'lucide-react';
+import { SlashCommandItem, renderCommandMenu } from './SlashCommand';
+
+export interface NoteLinkTarget {
+  id: string;
+  title: string;
+}
+
+export interface NoteLinkOptions {
+  // Notes that can be linked to; read again on every lookup so it can change
+  // while the editor is open
+  getNotes: () => NoteLinkTarget[];
+  onOpen?: (noteId: string) => void;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Titles starting with the query first, then ones containing it
+function matchNotes(notes: NoteLinkTarget[], query: string): NoteLinkTarget[] {
+  const q = query.trim().toLowerCase();
+  const titleOf = (note: NoteLinkTarget) => (note.title || 'Untitled').toLowerCase();
+  return notes
+    .map(note => ({ note, rank: !q || titleOf(note).startsWith(q) ? 0 : titleOf(note).includes(q) ? 1 : -1 }))
+    .filter(({ rank }) => rank >= 0)
+    .sort((a, b) => a.rank - b.rank || titleOf(a.note).localeCompare(titleOf(b.note)))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ note }) => note);
+}
+
+// Inline `[[link]]` to another note. Typing `[[` opens a title search; the
+// node stores the note's id, so the link survives renames, and shows the
+// note's current title. `label` is the title when the link was made, used
+// once the note is gone.
+export const NoteLink = Node.create<NoteLinkOptions>({
+  name: 'noteLink',
+  group: 'inline',
+  inline: true,
+  atom: true,
+
+  addOptions() {
+    return {
+      getNotes: () => [],
+      onOpen: undefined,
+    };
+  },
+
+  addAttributes() {
+    return {
+      noteId: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-note-id'),
+        renderHTML: attributes => ({ 'data-note-id': attributes.noteId }),
+      },
+      label: {
+        default: '',
+        parseHTML: element => element.textContent ?? '',
+        renderHTML: () => ({}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-type="noteLink"]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return ['span', mergeAttributes(HTMLAttributes, { 'data-type': 'noteLink' }), node.attrs.label || 'Untitled'];
+  },
+
+  renderText({ node }) {
+    return node.attrs.label || 'Untitled';
+  },
+
+  addNodeView() {
+    return ({ node: initialNode }: NodeViewRendererProps) => {
+      let node = initialNode;
+      const dom = document.createElement('span');
+      dom.className = 'note-link';
+      dom.contentEditable = 'false';
+
+      const target = () => this.options.getNotes().find(note => note.id === node.attrs.noteId);
+
+      const sync = () => {
+        const note = target();
+        dom.textContent = note ? note.title || 'Untitled' : node.attrs.label || 'Untitled';
+        dom.classList.toggle('note-link-missing', !note);
+        dom.title = note ? `Open ${dom.textContent}` : 'This note no longer exists';
+      };
+
+      dom.addEventListener('click', event => {
+        if (target()) {
+          event.preventDefault();
+          this.options.onOpen?.(node.attrs.noteId);
+        }
+      });
+
+      sync();
+      return {
+        dom,
+        update: updated => {
+          if (updated.type !== node.type) {
+            return false;
+          }
+          node = updated;
+          sync();
+          return true;
+        },
+      };
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const toItem = (note: NoteLinkTarget): SlashCommandItem => ({
+      id: note.id,
+      title: note.title || 'Untitled',
+      description: 'Link to page',
+      icon: FileText,
+      run: ({ editor, range }) => editor.chain().focus().insertContentAt(range, [
+        { type: this.name, attrs: { noteId: note.id, label: note.title } },
+        { type: 'text', text: ' ' },
+      ]).run(),
+    });
+
+    return [
+      Suggestion<SlashCommandItem>({
+        editor: this.editor,
+        pluginKey: new PluginKey('noteLinkSuggestion'),
+        char: '[[',
+        // Titles have spaces in them
+        allowSpaces: true,
+        allow: ({ editor }) => !editor.isActive('codeBlock'),
+        items: ({ query }) => matchNotes(this.options.getNotes(), query).map(toItem),
+        command: ({ editor, range, props }) => props.run({ editor, range }),
+        render: renderCommandMenu,
+      }),
+    ];
+  },
+});
@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Editor } from '@tiptap/core';
+import StarterKit from '@tiptap/starter-kit';
+import { BlockGroup } from './BlockGroup';
+import { Outline, getOutline } from './Outline';
+
+const createEditor = (content: string) => new Editor({
+  element: document.createElement('div'),
+  extensions: [StarterKit.configure({ trailingNode: false }), BlockGroup, Outline],
+  content,
+});
+
+// A heading with a child block, as `blocksToHTML` writes it
+const GROUPED = '<div data-type="group"><h2>Grouped</h2><p>Child</p></div>';
+
+describe('Outline', () => {
+  let editor: Editor | null = null;
+  afterEach(() => {
+    editor?.destroy();
+    editor = null;
+  });
+
+  it('lists headings that head a group', () => {
+    editor = createEditor(`<h1>Top</h1><p>Intro</p>${GROUPED}<p>After</p>`);
+    const outline = getOutline(editor.state.doc);
+    expect(outline.map(({ level, text }) => [level, text])).toEqual([[1, 'Top'], [2, 'Grouped']]);
+    const grouped = outline[1];
+    expect(editor.state.doc.nodeAt(grouped.pos)?.type.name).toBe('blockGroup');
+    expect(editor.state.doc.resolve(grouped.textPos).parent.textContent).toBe('Grouped');
+    expect(grouped.end).toBe(editor.state.doc.content.size);
+  });
+
+  it('moves a group-headed section as a whole', () => {
+    editor = createEditor(`<h2>First</h2><p>One</p>${GROUPED}<p>Two</p>`);
+    const [first, grouped] = getOutline(editor.state.doc);
+    expect(editor.commands.moveSection(grouped.pos, first.pos)).toBe(true);
+    expect(editor.getHTML()).toBe(
+      '<div data-type="group" class="block-group"><h2>Grouped</h2><p>Child</p></div><p>Two</p><h2>First</h2><p>One</p>',
+    );
+  });
+});
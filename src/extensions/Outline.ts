@@ -0,0 +1,74 @@
+import { Extension } from '@tiptap/core';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+
+// A heading directly in the document and the section it starts: the blocks
+// up to the next heading of the same or a higher level
+export interface OutlineHeading {
+  id: string | null;
+  level: number;
+  text: string;
+  // Where the heading's section starts: the heading, or the group it heads
+  pos: number;
+  // Where the heading's text starts
+  textPos: number;
+  // Where the heading's section ends
+  end: number;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    outline: {
+      // Moves the section of the heading at `pos` to `target`, a position
+      // between two top-level blocks outside that section
+      moveSection: (pos: number, target: number) => ReturnType;
+    };
+  }
+}
+
+// Headings nested in toggles, callouts or lists don't start sections and
+// are left out. A heading with children is the first block of a group, which
+// stands for it.
+export function getOutline(doc: ProseMirrorNode): OutlineHeading[] {
+  const headings: OutlineHeading[] = [];
+  doc.forEach((node, pos) => {
+    const heading = node.type.name === 'blockGroup' ? node.firstChild : node;
+    if (heading?.type.name === 'heading') {
+      headings.push({
+        id: heading.attrs.blockId ?? null,
+        level: heading.attrs.level,
+        text: heading.textContent,
+        pos,
+        textPos: heading === node ? pos + 1 : pos + 2,
+        end: doc.content.size,
+      });
+    }
+  });
+  headings.forEach((heading, index) => {
+    const next = headings.slice(index + 1).find(other => other.level <= heading.level);
+    if (next) {
+      heading.end = next.pos;
+    }
+  });
+  return headings;
+}
+
+export const Outline = Extension.create({
+  name: 'outline',
+
+  addCommands() {
+    return {
+      moveSection: (pos, target) => ({ state, tr, dispatch }) => {
+        const section = getOutline(state.doc).find(heading => heading.pos === pos);
+        if (!section || (target >= section.pos && target <= section.end)) {
+          return false;
+        }
+        if (dispatch) {
+          const { content } = state.doc.slice(section.pos, section.end);
+          tr.delete(section.pos, section.end);
+          tr.insert(tr.mapping.map(target), content);
+        }
+        return true;
+      },
+    };
+  },
+});
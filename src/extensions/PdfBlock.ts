@@ -0,0 +1,145 @@
+import { Editor, Node, mergeAttributes } from '@tiptap/core';
+import { ReactNodeViewRenderer } from '@tiptap/react';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { FileText } from 'lucide-react';
+import { PdfLibrary } from '../lib/pdfs';
+import { PdfBlockView } from '../components/PdfBlockView';
+import { registerSlashCommand } from './SlashCommand';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    pdfBlock: {
+      // Opens a file picker and embeds the chosen PDFs at the selection
+      pickPdfFiles: () => ReturnType;
+    };
+  }
+}
+
+export interface PdfBlockOptions {
+  // Imports files and loads documents; without it blocks only show their path
+  library?: PdfLibrary;
+  onError?: (error: unknown) => void;
+}
+
+const pdfFiles = (files: FileList | null | undefined) =>
+  Array.from(files ?? []).filter(file => file.type === 'application/pdf' || /\.pdf$/i.test(file.name));
+
+// Imports each file into the vault and embeds it at the current selection
+async function insertPdfFiles(editor: Editor, files: File[], options: PdfBlockOptions) {
+  if (!options.library) {
+    return;
+  }
+  for (const file of files) {
+    try {
+      const pdf = await options.library.import(file);
+      if (editor.isDestroyed) {
+        return;
+      }
+      editor.chain().focus().insertContent({ type: 'pdf', attrs: { pdfId: pdf.id, filePath: pdf.path } }).run();
+    } catch (error) {
+      options.onError?.(error);
+    }
+  }
+}
+
+registerSlashCommand({
+  id: 'pdf',
+  title: 'PDF',
+  description: 'Embed a PDF you can annotate',
+  icon: FileText,
+  keywords: ['document', 'upload'],
+  run: ({ editor, range }) => editor.chain().focus().deleteRange(range).pickPdfFiles().run(),
+});
+
+// Block-level embed of a vault PDF. The block stores the PDFDocument id and
+// file path; the node view renders a first-page preview that opens PDFViewer.
+export const PdfBlock = Node.create<PdfBlockOptions>({
+  name: 'pdf',
+  group: 'block',
+  atom: true,
+  draggable: true,
+
+  addOptions() {
+    return {
+      library: undefined,
+      onError: undefined,
+    };
+  },
+
+  addAttributes() {
+    return {
+      filePath: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-file-path'),
+        renderHTML: attributes => ({ 'data-file-path': attributes.filePath }),
+      },
+      pdfId: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-pdf-id'),
+        renderHTML: attributes => (attributes.pdfId ? { 'data-pdf-id': attributes.pdfId } : {}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'div[data-type="pdf"]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    const fileName = (node.attrs.filePath as string | null)?.split(/[\\/]/).pop() ?? 'PDF';
+    return ['div', mergeAttributes(HTMLAttributes, { 'data-type': 'pdf' }), fileName];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(PdfBlockView);
+  },
+
+  addCommands() {
+    return {
+      pickPdfFiles: () => ({ editor }) => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = 'application/pdf,.pdf';
+        input.multiple = true;
+        input.addEventListener('change', () => {
+          insertPdfFiles(editor, pdfFiles(input.files), this.options);
+        });
+        input.click();
+        return true;
+      },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const { editor, options } = this;
+    return [
+      new Plugin({
+        key: new PluginKey('pdfFiles'),
+        props: {
+          handlePaste: (_view, event) => {
+            const files = pdfFiles(event.clipboardData?.files);
+            if (files.length === 0 || !options.library) {
+              return false;
+            }
+            event.preventDefault();
+            insertPdfFiles(editor, files, options);
+            return true;
+          },
+          handleDrop: (view, event) => {
+            const files = pdfFiles(event.dataTransfer?.files);
+            if (files.length === 0 || !options.library) {
+              return false;
+            }
+            event.preventDefault();
+            const target = view.posAtCoords({ left: event.clientX, top: event.clientY });
+            if (target) {
+              editor.commands.setTextSelection(target.pos);
+            }
+            insertPdfFiles(editor, files, options);
+            return true;
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,18 @@
+import Blockquote from '@tiptap/extension-blockquote';
+import { Quote as QuoteIcon } from 'lucide-react';
+import { registerSlashCommand } from './SlashCommand';
+
+registerSlashCommand({
+  id: 'quote',
+  title: 'Quote',
+  description: 'Capture a quote',
+  icon: QuoteIcon,
+  keywords: ['blockquote', 'citation'],
+  run: ({ editor, range }) => editor.chain().focus().deleteRange(range).setParagraph().setBlockquote().run(),
+});
+
+// Quotes are saved as `quote` blocks. Like toggles, the first paragraph is
+// the block's text and anything after it are its children.
+export const Quote = Blockquote.extend({
+  content: 'paragraph block*',
+});
@@ -0,0 +1,167 @@
+import { Editor, Extension, Range } from '@tiptap/core';
+import { ReactRenderer } from '@tiptap/react';
+import Suggestion, { SuggestionOptions } from '@tiptap/suggestion';
+import { PluginKey } from '@tiptap/pm/state';
+import {
+  Heading1,
+  Heading2,
+  Heading3,
+  List,
+  ListOrdered,
+  LucideIcon,
+  Minus,
+  Type,
+} from 'lucide-react';
+import { CommandMenu, CommandMenuHandle } from '../components/CommandMenu';
+
+export interface SlashCommandItem {
+  id: string;
+  title: string;
+  description: string;
+  icon: LucideIcon;
+  // Extra words the filter should match, e.g. "h1" for Heading 1
+  keywords?: string[];
+  // `range` covers the typed "/query" and should be replaced by the command
+  run: (props: { editor: Editor; range: Range }) => void;
+}
+
+// Commands offered by every editor. The blocks StarterKit provides are
+// registered below; each of this app's block extensions registers its own
+// from its module, so new block types show up in the menu without touching
+// this file. The menu lists them in registration order.
+const registry = new Map<string, SlashCommandItem>();
+
+export function registerSlashCommand(command: SlashCommandItem): () => void {
+  registry.set(command.id, command);
+  return () => {
+    registry.delete(command.id);
+  };
+}
+
+export const getSlashCommands = (): SlashCommandItem[] => Array.from(registry.values());
+
+// Title prefix matches first, then anything mentioning the query
+export function filterSlashCommands(commands: SlashCommandItem[], query: string): SlashCommandItem[] {
+  const q = query.trim().toLowerCase();
+  if (!q) {
+    return commands;
+  }
+  const rank = (command: SlashCommandItem) => {
+    if (command.title.toLowerCase().startsWith(q) || command.keywords?.some(k => k.startsWith(q))) {
+      return 0;
+    }
+    const haystack = [command.title, command.description, ...(command.keywords ?? [])].join(' ').toLowerCase();
+    return haystack.includes(q) ? 1 : -1;
+  };
+  return commands
+    .map(command => ({ command, rank: rank(command) }))
+    .filter(({ rank }) => rank >= 0)
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ command }) => command);
+}
+
+// StarterKit's blocks
+const builtInCommands: SlashCommandItem[] = [
+  {
+    id: 'text',
+    title: 'Text',
+    description: 'Just start writing with plain text',
+    icon: Type,
+    keywords: ['paragraph'],
+    run: ({ editor, range }) => editor.chain().focus().deleteRange(range).setParagraph().run(),
+  },
+  ...([1, 2, 3] as const).map((level): SlashCommandItem => ({
+    id: `heading${level}`,
+    title: `Heading ${level}`,
+    description: ['Large', 'Medium', 'Small'][level - 1] + ' section heading',
+    icon: [Heading1, Heading2, Heading3][level - 1],
+    keywords: [`h${level}`],
+    run: ({ editor, range }) => editor.chain().focus().deleteRange(range).setHeading({ level }).run(),
+  })),
+  {
+    id: 'bulletList',
+    title: 'Bullet list',
+    description: 'Create a simple bullet list',
+    icon: List,
+    keywords: ['ul'],
+    run: ({ editor, range }) => editor.chain().focus().deleteRange(range).toggleBulletList().run(),
+  },
+  {
+    id: 'orderedList',
+    title: 'Numbered list',
+    description: 'Create a numbered list',
+    icon: ListOrdered,
+    keywords: ['ol'],
+    run: ({ editor, range }) => editor.chain().focus().deleteRange(range).toggleOrderedList().run(),
+  },
+  {
+    id: 'divider',
+    title: 'Divider',
+    description: 'Add a horizontal line',
+    icon: Minus,
+    keywords: ['hr', 'rule'],
+    run: ({ editor, range }) => editor.chain().focus().deleteRange(range).setHorizontalRule().run(),
+  },
+];
+
+builtInCommands.forEach(registerSlashCommand);
+
+// Mounts CommandMenu at the caret while a "/query" is being typed. Other
+// suggestions that offer SlashCommandItems (e.g. note links) reuse it.
+export const renderCommandMenu: SuggestionOptions<SlashCommandItem>['render'] = () => {
+  let renderer: ReactRenderer<CommandMenuHandle> | null = null;
+
+  const positionOf = (clientRect?: (() => DOMRect | null) | null) => {
+    const rect = clientRect?.();
+    return rect ? { x: rect.left, y: rect.bottom + 4 } : { x: 0, y: 0 };
+  };
+
+  return {
+    onStart: (props) => {
+      renderer = new ReactRenderer(CommandMenu, {
+        editor: props.editor,
+        props: { items: props.items, onSelect: props.command, position: positionOf(props.clientRect) },
+      });
+      document.body.appendChild(renderer.element);
+    },
+    onUpdate: (props) => {
+      renderer?.updateProps({ items: props.items, onSelect: props.command, position: positionOf(props.clientRect) });
+    },
+    onKeyDown: ({ event }) => renderer?.ref?.onKeyDown(event) ?? false,
+    onExit: () => {
+      renderer?.element.remove();
+      renderer?.destroy();
+      renderer = null;
+    },
+  };
+};
+
+export interface SlashCommandOptions {
+  // Editor-specific commands on top of the registered ones
+  commands: SlashCommandItem[];
+}
+
+export const SlashCommand = Extension.create<SlashCommandOptions>({
+  name: 'slashCommand',
+
+  addOptions() {
+    return {
+      commands: [],
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      Suggestion<SlashCommandItem>({
+        editor: this.editor,
+        pluginKey: new PluginKey('slashCommand'),
+        char: '/',
+        // Not inside code, where "/" is just a character
+        allow: ({ editor }) => !editor.isActive('codeBlock'),
+        items: ({ query }) => filterSlashCommands([...getSlashCommands(), ...this.options.commands], query),
+        command: ({ editor, range, props }) => props.run({ editor, range }),
+        render: renderCommandMenu,
+      }),
+    ];
+  },
+});
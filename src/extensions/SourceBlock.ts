@@ -0,0 +1,40 @@
+import { KeyboardShortcutCommand } from '@tiptap/core';
+import { NodeType } from '@tiptap/pm/model';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+
+// Shared by blocks whose text is source shown next to its rendering, such as
+// equations and diagrams.
+
+// Marks the block holding the caret with `is-editing`, so its node view can
+// show the source only while it is being edited
+export const sourceEditingPlugin = (type: NodeType) =>
+  new Plugin({
+    key: new PluginKey(`${type.name}Editing`),
+    props: {
+      decorations: state => {
+        const { $from, $to } = state.selection;
+        if ($from.parent.type !== type || !$from.sameParent($to)) {
+          return null;
+        }
+        const pos = $from.before();
+        return DecorationSet.create(state.doc, [
+          Decoration.node(pos, pos + $from.parent.nodeSize, { class: 'is-editing' }),
+        ]);
+      },
+    },
+  });
+
+// Enter adds a line to the source and Tab indents it; Mod-Enter leaves the
+// block, and Backspace in an empty one turns it back into a paragraph
+export const sourceBlockShortcuts = (type: NodeType): Record<string, KeyboardShortcutCommand> => ({
+  'Mod-Enter': ({ editor }) => editor.isActive(type.name) && editor.commands.exitCode(),
+  Tab: ({ editor }) => editor.isActive(type.name) && editor.commands.insertContent('  '),
+  Backspace: ({ editor }) => {
+    const { empty, $from } = editor.state.selection;
+    if (!empty || $from.parent.type !== type || $from.parent.textContent) {
+      return false;
+    }
+    return editor.commands.setParagraph();
+  },
+});
@@ -0,0 +1,137 @@
+import { Table, TableCell as BaseTableCell, TableHeader as BaseTableHeader } from '@tiptap/extension-table';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { TextSelection, Transaction } from '@tiptap/pm/state';
+import {
+  TableMap,
+  columnIsHeader,
+  isInTable,
+  moveTableColumn,
+  moveTableRow,
+  rowIsHeader,
+  selectedRect,
+} from '@tiptap/pm/tables';
+import { Table as TableIcon } from 'lucide-react';
+import { registerSlashCommand } from './SlashCommand';
+
+export { TableRow } from '@tiptap/extension-table';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    tableBlock: {
+      // Swap the selected row / column with its neighbour (-1 up or left, 1 down or right)
+      moveRow: (offset: -1 | 1) => ReturnType;
+      moveColumn: (offset: -1 | 1) => ReturnType;
+    };
+  }
+}
+
+// A cell is a single paragraph, so it maps onto one inline HTML string in
+// the `table` block. Shift-Enter still adds line breaks.
+export const TableCell = BaseTableCell.extend({ content: 'paragraph' });
+export const TableHeader = BaseTableHeader.extend({ content: 'paragraph' });
+
+// Moving rows or columns carries their cells along, header cells included.
+// Headers belong to the table's first row and column, so cells are re-typed
+// afterwards to keep them there.
+function keepHeaders(tr: Transaction, tablePos: number, headerRow: boolean, headerColumn: boolean) {
+  const table = tr.doc.nodeAt(tablePos);
+  if (!table) {
+    return tr;
+  }
+  const { tableHeader, tableCell } = table.type.schema.nodes;
+  const map = TableMap.get(table);
+  for (let row = 0; row < map.height; row++) {
+    for (let col = 0; col < map.width; col++) {
+      const pos = tablePos + 1 + map.positionAt(row, col, table);
+      const cell = tr.doc.nodeAt(pos);
+      const type = (headerRow && row === 0) || (headerColumn && col === 0) ? tableHeader : tableCell;
+      if (cell && cell.type !== type) {
+        tr.setNodeMarkup(pos, type, cell.attrs);
+      }
+    }
+  }
+  return tr;
+}
+
+const headerLayout = (map: TableMap, table: ProseMirrorNode) => ({
+  headerRow: rowIsHeader(map, table, 0),
+  headerColumn: columnIsHeader(map, table, 0),
+});
+
+registerSlashCommand({
+  id: 'table',
+  title: 'Table',
+  description: 'Add a table with a header row',
+  icon: TableIcon,
+  keywords: ['grid', 'rows', 'columns'],
+  run: ({ editor, range }) =>
+    editor.chain().focus().deleteRange(range).insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run(),
+});
+
+// Tables saved as `table` blocks: header row and column toggles, row and
+// column reordering, and Enter moving to the cell below (adding a row at the
+// bottom), on top of Tab / Shift-Tab and arrow keys between cells.
+export const TableBlock = Table.extend({
+  addOptions() {
+    return {
+      ...this.parent!(),
+      resizable: false,
+    };
+  },
+
+  addCommands() {
+    return {
+      ...this.parent?.(),
+      moveRow: offset => ({ state, dispatch }) => {
+        if (!isInTable(state)) {
+          return false;
+        }
+        const { top, map, table, tableStart } = selectedRect(state);
+        const to = top + offset;
+        if (to < 0 || to >= map.height) {
+          return false;
+        }
+        const { headerRow, headerColumn } = headerLayout(map, table);
+        return moveTableRow({ from: top, to })(state, dispatch && (tr => {
+          dispatch(keepHeaders(tr, tableStart - 1, headerRow, headerColumn));
+        }));
+      },
+      moveColumn: offset => ({ state, dispatch }) => {
+        if (!isInTable(state)) {
+          return false;
+        }
+        const { left, map, table, tableStart } = selectedRect(state);
+        const to = left + offset;
+        if (to < 0 || to >= map.width) {
+          return false;
+        }
+        const { headerRow, headerColumn } = headerLayout(map, table);
+        return moveTableColumn({ from: left, to })(state, dispatch && (tr => {
+          dispatch(keepHeaders(tr, tableStart - 1, headerRow, headerColumn));
+        }));
+      },
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      ...this.parent?.(),
+      Enter: ({ editor }) => {
+        if (!isInTable(editor.state)) {
+          return false;
+        }
+        const { bottom, map } = selectedRect(editor.state);
+        const chain = editor.chain();
+        if (bottom === map.height) {
+          chain.addRowAfter();
+        }
+        return chain.command(({ state, tr }) => {
+          const rect = selectedRect(state);
+          const below = rect.tableStart + rect.map.positionAt(rect.bottom, rect.left, rect.table);
+          tr.setSelection(TextSelection.near(tr.doc.resolve(below + 1)));
+          return true;
+        }).scrollIntoView().run();
+      },
+    };
+  },
+});
@@ -0,0 +1,115 @@
+import BaseTaskItem from '@tiptap/extension-task-item';
+import { NodeViewRendererProps } from '@tiptap/core';
+import { CheckSquare } from 'lucide-react';
+import { registerSlashCommand } from './SlashCommand';
+
+const PRIORITY_LABELS: Record<string, string> = {
+  '': 'No priority',
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+};
+
+registerSlashCommand({
+  id: 'taskList',
+  title: 'Task list',
+  description: 'Track tasks with checkboxes',
+  icon: CheckSquare,
+  keywords: ['todo', 'checkbox'],
+  run: ({ editor, range }) => editor.chain().focus().deleteRange(range).toggleTaskList().run(),
+});
+
+// Task items with an optional due date and priority, stored on the `todo`
+// block as `dueDate` / `priority`. The stock node view is reused and a small
+// non-editable control strip is added after the task's text.
+export const TaskItem = BaseTaskItem.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      dueDate: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-due-date'),
+        renderHTML: attributes => (attributes.dueDate ? { 'data-due-date': attributes.dueDate } : {}),
+      },
+      priority: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-priority'),
+        renderHTML: attributes => (attributes.priority ? { 'data-priority': attributes.priority } : {}),
+      },
+    };
+  },
+
+  addNodeView() {
+    const createBaseView = this.parent?.();
+    if (!createBaseView) {
+      return null;
+    }
+
+    return (props: NodeViewRendererProps) => {
+      const { editor, getPos } = props;
+      const view = createBaseView(props);
+      const listItem = view.dom as HTMLElement;
+
+      const meta = document.createElement('span');
+      meta.className = 'task-meta';
+      meta.contentEditable = 'false';
+
+      const dueDate = document.createElement('input');
+      dueDate.type = 'date';
+      dueDate.title = 'Due date';
+
+      const priority = document.createElement('select');
+      priority.title = 'Priority';
+      Object.entries(PRIORITY_LABELS).forEach(([value, label]) => {
+        priority.append(new Option(label, value));
+      });
+
+      const setAttribute = (name: 'dueDate' | 'priority', value: string) => {
+        if (!editor.isEditable || typeof getPos !== 'function') {
+          return;
+        }
+        editor.chain().command(({ tr }) => {
+          const position = getPos();
+          if (typeof position !== 'number') {
+            return false;
+          }
+          tr.setNodeAttribute(position, name, value || null);
+          return true;
+        }).run();
+      };
+
+      dueDate.addEventListener('change', () => setAttribute('dueDate', dueDate.value));
+      priority.addEventListener('change', () => setAttribute('priority', priority.value));
+
+      const sync = (attrs: Record<string, unknown>) => {
+        dueDate.value = (attrs.dueDate as string | null) ?? '';
+        priority.value = (attrs.priority as string | null) ?? '';
+        listItem.toggleAttribute('data-has-meta', Boolean(attrs.dueDate || attrs.priority));
+        if (attrs.priority) {
+          listItem.dataset.priority = attrs.priority as string;
+        } else {
+          delete listItem.dataset.priority;
+        }
+      };
+
+      sync(props.node.attrs);
+      meta.append(dueDate, priority);
+      listItem.append(meta);
+
+      return {
+        ...view,
+        update: (node, decorations, innerDecorations) => {
+          if (!view.update?.(node, decorations, innerDecorations)) {
+            return false;
+          }
+          sync(node.attrs);
+          return true;
+        },
+        // The controls manage their own events and DOM
+        stopEvent: (event: Event) => meta.contains(event.target as Node),
+        ignoreMutation: (mutation) =>
+          mutation.type !== 'selection' && meta.contains(mutation.target),
+      };
+    };
+  },
+});
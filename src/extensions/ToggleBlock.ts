@@ -0,0 +1,146 @@
+import { Node, NodeViewRendererProps, mergeAttributes } from '@tiptap/core';
+import { TextSelection } from '@tiptap/pm/state';
+import { ChevronRight } from 'lucide-react';
+import { registerSlashCommand } from './SlashCommand';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    toggleBlock: {
+      // Wraps the current paragraph in a toggle, making it the toggle's text
+      setToggle: () => ReturnType;
+    };
+  }
+}
+
+registerSlashCommand({
+  id: 'toggle',
+  title: 'Toggle list',
+  description: 'Hide and show content inside',
+  icon: ChevronRight,
+  keywords: ['collapse', 'details'],
+  run: ({ editor, range }) => editor.chain().focus().deleteRange(range).setParagraph().setToggle().run(),
+});
+
+// Collapsible block, saved as a `toggle` block. Its first paragraph is the
+// always-visible text; the blocks after it are its children and are hidden
+// while `collapsed` is set.
+export const ToggleBlock = Node.create({
+  name: 'toggle',
+  group: 'block',
+  content: 'paragraph block*',
+  defining: true,
+
+  addAttributes() {
+    return {
+      collapsed: {
+        default: false,
+        parseHTML: element => element.getAttribute('data-collapsed') === 'true',
+        renderHTML: attributes => (attributes.collapsed ? { 'data-collapsed': 'true' } : {}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'div[data-type="toggle"]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes(HTMLAttributes, { 'data-type': 'toggle' }), 0];
+  },
+
+  addCommands() {
+    return {
+      setToggle: () => ({ commands }) => commands.wrapIn(this.name),
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      // Enter at the end of a collapsed toggle's text starts a new block after
+      // it, rather than a hidden child
+      Enter: ({ editor }) => {
+        const { selection } = editor.state;
+        const { $from, empty } = selection;
+        if (!empty || $from.depth < 2 || $from.parentOffset !== $from.parent.content.size) {
+          return false;
+        }
+        const toggle = $from.node(-1);
+        if (toggle.type.name !== this.name || !toggle.attrs.collapsed || $from.index(-1) !== 0) {
+          return false;
+        }
+        const after = $from.after(-1);
+        return editor.chain().command(({ tr }) => {
+          tr.insert(after, editor.schema.nodes.paragraph.create());
+          tr.setSelection(TextSelection.create(tr.doc, after + 1)).scrollIntoView();
+          return true;
+        }).run();
+      },
+    };
+  },
+
+  addNodeView() {
+    return ({ node: initialNode, editor, getPos }: NodeViewRendererProps) => {
+      let node = initialNode;
+
+      const dom = document.createElement('div');
+      dom.className = 'toggle-block';
+
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = 'toggle-block-button';
+      button.contentEditable = 'false';
+      button.textContent = '▸';
+
+      const content = document.createElement('div');
+      content.className = 'toggle-block-content';
+
+      button.addEventListener('mousedown', event => event.preventDefault());
+      button.addEventListener('click', () => {
+        if (typeof getPos !== 'function') {
+          return;
+        }
+        editor.chain().command(({ tr }) => {
+          const position = getPos();
+          if (typeof position !== 'number') {
+            return false;
+          }
+          const collapsed = !node.attrs.collapsed;
+          tr.setNodeAttribute(position, 'collapsed', collapsed);
+          // A caret inside the children would otherwise be left out of sight
+          const summaryEnd = position + 1 + node.child(0).nodeSize - 1;
+          if (collapsed && tr.selection.from > summaryEnd && tr.selection.to < position + node.nodeSize) {
+            tr.setSelection(TextSelection.create(tr.doc, summaryEnd));
+          }
+          return true;
+        }).run();
+      });
+
+      const sync = () => {
+        const collapsed = Boolean(node.attrs.collapsed);
+        dom.toggleAttribute('data-collapsed', collapsed);
+        button.title = collapsed ? 'Expand' : 'Collapse';
+        button.setAttribute('aria-expanded', String(!collapsed));
+      };
+
+      sync();
+      dom.append(button, content);
+
+      return {
+        dom,
+        contentDOM: content,
+        update: updated => {
+          if (updated.type !== node.type) {
+            return false;
+          }
+          node = updated;
+          sync();
+          return true;
+        },
+        stopEvent: (event: Event) => event.target === button,
+        ignoreMutation: (mutation) =>
+          (mutation.type === 'attributes' && mutation.target === dom) ||
+          (mutation.type !== 'selection' && button.contains(mutation.target)),
+      };
+    };
+  },
+});
@@ -0,0 +1,81 @@
+import { NoteRepository } from './repository';
+
+// Files pasted or dropped into notes are copied into the vault and referenced
+// by a vault-relative path. The webview cannot load those paths directly, so
+// they are turned into object URLs on demand.
+
+const ATTACHMENT_PREFIX = 'attachments/';
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+};
+
+export const isAttachmentPath = (src: string) => src.startsWith(ATTACHMENT_PREFIX);
+
+export const mimeTypeOf = (path: string) =>
+  MIME_TYPES[path.split('.').pop()?.toLowerCase() ?? ''] ?? 'application/octet-stream';
+
+// Pasted screenshots often arrive without an extension in their name
+const fileNameOf = (file: File) => {
+  if (file.name.includes('.')) {
+    return file.name;
+  }
+  const extension = Object.keys(MIME_TYPES).find(key => MIME_TYPES[key] === file.type);
+  return `${file.name || 'file'}${extension ? `.${extension}` : ''}`;
+};
+
+export interface AttachmentStore {
+  // Copies the file into the vault and returns the path to store on the block
+  import(file: File): Promise<string>;
+  // A URL an <img> can load; sources that are not attachments pass through
+  resolve(src: string): Promise<string>;
+  // The attachment inlined as a data: URL, for self-contained exports
+  toDataURL(src: string): Promise<string>;
+}
+
+export function createAttachmentStore(repository: NoteRepository): AttachmentStore {
+  // Attachments never change once written, so their URLs can live as long as
+  // the app does
+  const urls = new Map<string, Promise<string>>();
+
+  const load = async (path: string) =>
+    new Blob([await repository.loadAttachment(path)], { type: mimeTypeOf(path) });
+
+  return {
+    import: async (file) => repository.saveAttachment(fileNameOf(file), await file.arrayBuffer()),
+
+    resolve: (src) => {
+      if (!isAttachmentPath(src)) {
+        return Promise.resolve(src);
+      }
+      if (!urls.has(src)) {
+        const url = load(src).then(blob => URL.createObjectURL(blob));
+        // Let a failed load be retried next time
+        url.catch(() => urls.delete(src));
+        urls.set(src, url);
+      }
+      return urls.get(src)!;
+    },
+
+    toDataURL: async (src) => {
+      if (!isAttachmentPath(src)) {
+        return src;
+      }
+      const blob = await load(src);
+      return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+      });
+    },
+  };
+}
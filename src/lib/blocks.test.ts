@@ -0,0 +1,198 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Editor } from '@tiptap/core';
+import StarterKit from '@tiptap/starter-kit';
+import TaskList from '@tiptap/extension-task-list';
+import Highlight from '@tiptap/extension-highlight';
+import TextAlign from '@tiptap/extension-text-align';
+import { Color, TextStyle } from '@tiptap/extension-text-style';
+import { Block, BlockType } from '../types';
+import { blocksToHTML, htmlToBlocks } from './blocks';
+import { BlockId } from '../extensions/BlockId';
+import { BlockGroup } from '../extensions/BlockGroup';
+import { Callout } from '../extensions/Callout';
+import { CodeBlock } from '../extensions/CodeBlock';
+import { Diagram } from '../extensions/Diagram';
+import { ImageBlock } from '../extensions/ImageBlock';
+import { InlineMath, MathBlock } from '../extensions/Math';
+import { PdfBlock } from '../extensions/PdfBlock';
+import { Quote } from '../extensions/Quote';
+import { TableBlock, TableCell, TableHeader, TableRow } from '../extensions/TableBlock';
+import { TaskItem } from '../extensions/TaskItem';
+import { ToggleBlock } from '../extensions/ToggleBlock';
+
+// pdf.js needs canvas APIs jsdom lacks; pdf blocks only need their node here
+vi.mock('react-pdf', () => ({ Document: () => null, Page: () => null, pdfjs: { GlobalWorkerOptions: {} } }));
+
+// One of every block type with all of its fields set, children included
+// wherever a block can have them. Orders are positions among siblings, as
+// `htmlToBlocks` numbers them.
+const block = (id: string, type: BlockType, fields: Partial<Block> = {}): Block => ({
+  id,
+  type,
+  content: '',
+  order: 0,
+  ...fields,
+});
+
+const ordered = (blocks: Block[]) => blocks.map((child, order) => ({ ...child, order }));
+
+const NOTE: Block[] = ordered([
+  block('text', 'text', {
+    content: 'Plain <strong>bold</strong> and <em>italic</em>',
+    align: 'center',
+    children: ordered([
+      block('text-child', 'text', {
+        content: 'Child of a paragraph',
+        children: [block('text-grandchild', 'text', { content: 'Grandchild' })],
+      }),
+      block('text-child-list', 'list', { content: 'List under a paragraph', listStyle: 'bullet' }),
+    ]),
+  }),
+  block('heading', 'heading', {
+    content: 'Heading',
+    level: 2,
+    align: 'right',
+    children: [block('heading-child', 'text', { content: 'Section text' })],
+  }),
+  block('todo-open', 'todo', {
+    content: 'Open task',
+    checked: false,
+    dueDate: '2026-10-19',
+    priority: 'high',
+    children: [block('todo-child', 'todo', { content: 'Subtask', checked: true })],
+  }),
+  block('todo-done', 'todo', { content: 'Done task', checked: true }),
+  block('bullet', 'list', {
+    content: 'Bullet',
+    listStyle: 'bullet',
+    children: [block('bullet-child', 'list', { content: 'Nested numbered', listStyle: 'ordered' })],
+  }),
+  block('numbered', 'list', { content: 'Numbered', listStyle: 'ordered' }),
+  block('divider', 'divider'),
+  block('image', 'image', {
+    filePath: 'attachments/photo.png',
+    width: 320,
+    align: 'center',
+    caption: 'A "quoted" caption',
+  }),
+  block('pdf', 'pdf', { filePath: 'attachments/paper.pdf', pdfId: 'pdf-1' }),
+  block('code', 'code', { content: 'if (a < b && c > "d") {\n  return;\n}', language: 'typescript' }),
+  block('math', 'math', { content: 'e^{i\\pi} + 1 = 0' }),
+  block('diagram', 'diagram', { content: 'flowchart LR\n  A --> B' }),
+  block('toggle', 'toggle', {
+    content: 'Toggle',
+    collapsed: true,
+    children: [block('toggle-child', 'text', { content: 'Hidden' })],
+  }),
+  block('table', 'table', {
+    table: { rows: [['Name', 'Value'], ['<strong>a</strong>', '1']], headerRow: true, headerColumn: false },
+  }),
+  block('quote', 'quote', {
+    content: 'Quoted',
+    children: [block('quote-child', 'text', { content: 'More quote' })],
+  }),
+  block('callout', 'callout', {
+    content: 'Callout',
+    icon: '💡',
+    color: 'blue',
+    children: [block('callout-child', 'heading', { content: 'Inside', level: 3 })],
+  }),
+  block('last', 'text', { content: 'The end' }),
+]);
+
+const ALL_TYPES: BlockType[] = [
+  'text', 'heading', 'todo', 'list', 'divider', 'image', 'pdf', 'code',
+  'math', 'diagram', 'toggle', 'table', 'quote', 'callout',
+];
+
+const typesIn = (blocks: Block[]): BlockType[] =>
+  blocks.flatMap(child => [child.type, ...typesIn(child.children ?? [])]);
+
+// The same extensions as the Editor component, without its UI
+const createEditor = (content: string) => new Editor({
+  element: document.createElement('div'),
+  extensions: [
+    StarterKit.configure({ blockquote: false, codeBlock: false }),
+    CodeBlock,
+    Quote,
+    Callout,
+    MathBlock,
+    InlineMath,
+    Diagram,
+    TaskList,
+    TaskItem.configure({ nested: true }),
+    ImageBlock,
+    TextStyle,
+    Color,
+    Highlight.configure({ multicolor: true }),
+    TextAlign.configure({ types: ['heading', 'paragraph'] }),
+    PdfBlock,
+    ToggleBlock,
+    BlockGroup,
+    TableBlock,
+    TableRow,
+    TableHeader,
+    TableCell,
+    BlockId,
+  ],
+  content,
+});
+
+describe('blocksToHTML and htmlToBlocks', () => {
+  it('covers every block type', () => {
+    expect(new Set(typesIn(NOTE))).toEqual(new Set(ALL_TYPES));
+  });
+
+  it('round-trip every block type through HTML', () => {
+    expect(htmlToBlocks(blocksToHTML(NOTE))).toEqual(NOTE);
+  });
+
+  it('round-trip each block type on its own', () => {
+    NOTE.forEach(original => {
+      const single = { ...original, order: 0 };
+      expect(htmlToBlocks(blocksToHTML([single]))).toEqual([single]);
+    });
+  });
+
+  it('keep children of blocks that cannot nest them in the editor', () => {
+    const html = blocksToHTML([NOTE[0]]);
+    expect(html.startsWith('<div data-type="group"><p')).toBe(true);
+    expect(htmlToBlocks(html)[0].children?.map(child => child.id)).toEqual(['text-child', 'text-child-list']);
+  });
+
+  it('order blocks by `order` rather than array position', () => {
+    const blocks = [block('b', 'text', { content: 'B', order: 1 }), block('a', 'text', { content: 'A', order: 0 })];
+    expect(htmlToBlocks(blocksToHTML(blocks)).map(parsed => [parsed.id, parsed.order])).toEqual([['a', 0], ['b', 1]]);
+  });
+});
+
+describe('blocks through the editor', () => {
+  let editor: Editor | null = null;
+  afterEach(() => {
+    editor?.destroy();
+    editor = null;
+  });
+
+  it('load and save every block type without losing anything', () => {
+    editor = createEditor(blocksToHTML(NOTE));
+    expect(htmlToBlocks(editor.getHTML())).toEqual(NOTE);
+  });
+
+  it('survive repeated load/save cycles', () => {
+    let blocks = NOTE;
+    for (let cycle = 0; cycle < 3; cycle += 1) {
+      editor?.destroy();
+      editor = createEditor(blocksToHTML(blocks));
+      blocks = htmlToBlocks(editor.getHTML());
+    }
+    expect(blocks).toEqual(NOTE);
+  });
+
+  it('keep ids when a block is split at its start', () => {
+    editor = createEditor(blocksToHTML([block('split', 'text', { content: 'Content' })]));
+    editor.chain().setTextSelection(1).splitBlock().run();
+    const [empty, moved] = htmlToBlocks(editor.getHTML());
+    expect(moved).toMatchObject({ id: 'split', content: 'Content' });
+    expect(empty.id).not.toBe('split');
+  });
+});
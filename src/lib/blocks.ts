@@ -0,0 +1,464 @@
+import { Block, BlockAlignment, BlockTable, BlockType, TaskPriority } from '../types';
+
+// Two-way mapping between the `Block[]` stored on a note and the HTML the
+// TipTap editor reads and writes. Text-bearing blocks keep their inline HTML
+// (bold, links, ...) in `content`; code, math and diagram blocks keep raw
+// text. Every block is tagged with `data-block-id` so ids survive the round
+// trip (see BlockId).
+
+export function escapeHTML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Code, math and diagram blocks hold source text in `content` rather than
+// inline HTML
+export const isSourceBlock = (block: Block) =>
+  block.type === 'code' || block.type === 'math' || block.type === 'diagram';
+
+const idAttr = (block: Block) => ` data-block-id="${escapeHTML(block.id)}"`;
+
+// Matches the inline style the TextAlign extension reads and writes
+const alignAttr = (block: Block) => (block.align ? ` style="text-align: ${block.align}"` : '');
+
+const ALIGNMENTS: BlockAlignment[] = ['left', 'center', 'right', 'justify'];
+
+const alignOf = (element: Element | undefined) => {
+  const align = (element as HTMLElement | undefined)?.style?.textAlign as BlockAlignment | undefined;
+  return align && ALIGNMENTS.includes(align) ? { align } : {};
+};
+
+// Images carry their layout as attributes the ImageBlock extension reads
+const imageAttrs = (block: Block) =>
+  (block.width ? ` width="${block.width}"` : '') +
+  (block.align ? ` data-align="${block.align}"` : '') +
+  (block.caption ? ` data-caption="${escapeHTML(block.caption)}"` : '');
+
+const imageOf = (element: Element) => {
+  const width = Number(element.getAttribute('width'));
+  const align = element.getAttribute('data-align') as BlockAlignment | null;
+  const caption = element.getAttribute('data-caption');
+  return {
+    filePath: element.getAttribute('src') ?? undefined,
+    ...(width > 0 ? { width: Math.round(width) } : {}),
+    ...(align && ALIGNMENTS.includes(align) ? { align } : {}),
+    ...(caption ? { caption } : {}),
+  };
+};
+
+// Cells wrap their inline HTML in a paragraph, as the table extension expects
+function renderTable(table: BlockTable): string {
+  const body = table.rows.map((row, r) =>
+    `<tr>${row.map((cell, c) => {
+      const tag = (table.headerRow && r === 0) || (table.headerColumn && c === 0) ? 'th' : 'td';
+      return `<${tag}><p>${cell}</p></${tag}>`;
+    }).join('')}</tr>`
+  ).join('');
+  return `<tbody>${body}</tbody>`;
+}
+
+function parseTable(element: Element): BlockTable {
+  const rows = Array.from(element.querySelectorAll('tr')).map(tr =>
+    Array.from(tr.children).filter(cell => cell.tagName === 'TD' || cell.tagName === 'TH'));
+  const width = Math.max(0, ...rows.map(row => row.length));
+  const isHeader = (cell: Element | undefined) => cell?.tagName === 'TH';
+  return {
+    // Short rows are padded so the table stays rectangular
+    rows: rows.map(row => Array.from({ length: width }, (_, c) => {
+      const cell = row[c];
+      return cell ? (cell.querySelector('p') ?? cell).innerHTML : '';
+    })),
+    headerRow: rows.length > 0 && rows[0].every(isHeader),
+    headerColumn: rows.length > 0 && rows.every(row => isHeader(row[0])),
+  };
+}
+
+const byOrder = (blocks: Block[]) => [...blocks].sort((a, b) => a.order - b.order);
+
+const isSameList = (a: Block, b: Block) =>
+  a.type === b.type &&
+  (a.type === 'todo' || (a.listStyle ?? 'bullet') === (b.listStyle ?? 'bullet'));
+
+export function blocksToHTML(blocks: Block[]): string {
+  if (!blocks || blocks.length === 0) {
+    return '<p></p>'; // Empty paragraph for clean start
+  }
+  return renderBlocks(blocks);
+}
+
+function renderBlocks(blocks: Block[]): string {
+  const sorted = byOrder(blocks);
+  let html = '';
+  let index = 0;
+
+  while (index < sorted.length) {
+    const block = sorted[index];
+    if (block.type === 'list' || block.type === 'todo') {
+      // Consecutive items of the same kind share one list element
+      const items: Block[] = [];
+      while (index < sorted.length && isSameList(sorted[index], block)) {
+        items.push(sorted[index]);
+        index += 1;
+      }
+      html += renderList(items);
+    } else {
+      html += renderBlock(block);
+      index += 1;
+    }
+  }
+
+  return html;
+}
+
+const renderChildren = (block: Block) =>
+  block.children && block.children.length > 0 ? renderBlocks(block.children) : '';
+
+const taskAttrs = (item: Block) =>
+  (item.dueDate ? ` data-due-date="${escapeHTML(item.dueDate)}"` : '') +
+  (item.priority ? ` data-priority="${item.priority}"` : '');
+
+const PRIORITIES: TaskPriority[] = ['low', 'medium', 'high'];
+
+function renderList(items: Block[]): string {
+  if (items[0].type === 'todo') {
+    const body = items.map(item =>
+      `<li data-type="taskItem" data-checked="${item.checked ? 'true' : 'false'}"${idAttr(item)}${taskAttrs(item)}>` +
+      `<p${alignAttr(item)}>${item.content}</p>${renderChildren(item)}</li>`
+    ).join('');
+    return `<ul data-type="taskList">${body}</ul>`;
+  }
+
+  const tag = items[0].listStyle === 'ordered' ? 'ol' : 'ul';
+  const body = items.map(item =>
+    `<li${idAttr(item)}><p${alignAttr(item)}>${item.content}</p>${renderChildren(item)}</li>`
+  ).join('');
+  return `<${tag}>${body}</${tag}>`;
+}
+
+// Toggles, quotes and callouts keep their text in a first paragraph and
+// hold their children after it
+function renderContainer(block: Block): string | null {
+  const inner = `<p${alignAttr(block)}>${block.content}</p>${renderChildren(block)}`;
+  switch (block.type) {
+    case 'toggle': {
+      const collapsed = block.collapsed ? ' data-collapsed="true"' : '';
+      return `<div data-type="toggle"${collapsed}${idAttr(block)}>${inner}</div>`;
+    }
+    case 'quote':
+      return `<blockquote${idAttr(block)}>${inner}</blockquote>`;
+    case 'callout': {
+      const icon = block.icon ? ` data-icon="${escapeHTML(block.icon)}"` : '';
+      const color = block.color ? ` data-color="${escapeHTML(block.color)}"` : '';
+      return `<div data-type="callout"${icon}${color}${idAttr(block)}>${inner}</div>`;
+    }
+    default:
+      return null;
+  }
+}
+
+// Only list items and containers hold nested blocks in the editor schema;
+// any other block with children is wrapped in a group together with them
+// (see BlockGroup), the block first
+function renderBlock(block: Block): string {
+  const container = renderContainer(block);
+  if (container !== null) {
+    return container;
+  }
+  const children = renderChildren(block);
+  return children
+    ? `<div data-type="group">${renderBlockBody(block)}${children}</div>`
+    : renderBlockBody(block);
+}
+
+function renderBlockBody(block: Block): string {
+  switch (block.type) {
+    case 'heading': {
+      const level = Math.min(Math.max(block.level ?? 1, 1), 6);
+      return `<h${level}${idAttr(block)}${alignAttr(block)}>${block.content}</h${level}>`;
+    }
+    case 'divider':
+      return `<hr${idAttr(block)}>`;
+    case 'image':
+      return `<img src="${escapeHTML(block.filePath ?? '')}"${idAttr(block)}${imageAttrs(block)}>`;
+    case 'table':
+      return `<table${idAttr(block)}>${renderTable(block.table ?? { rows: [['']] })}</table>`;
+    case 'pdf':
+      return `<div data-type="pdf" data-file-path="${escapeHTML(block.filePath ?? '')}"` +
+        `${block.pdfId ? ` data-pdf-id="${escapeHTML(block.pdfId)}"` : ''}${idAttr(block)}></div>`;
+    case 'code': {
+      const language = block.language ? ` class="language-${escapeHTML(block.language)}"` : '';
+      return `<pre${idAttr(block)}><code${language}>${escapeHTML(block.content)}</code></pre>`;
+    }
+    case 'math':
+    case 'diagram':
+      return `<div data-type="${block.type}"${idAttr(block)}>${escapeHTML(block.content)}</div>`;
+    case 'text':
+    default:
+      return `<p${idAttr(block)}${alignAttr(block)}>${block.content || ''}</p>`;
+  }
+}
+
+export function htmlToBlocks(html: string): Block[] {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(html || '', 'text/html');
+  const blocks = parseElements(Array.from(doc.body.children));
+
+  if (blocks.length === 0) {
+    return [createBlock('text')];
+  }
+  return blocks;
+}
+
+export function createBlock(type: BlockType, content = ''): Block {
+  return {
+    id: crypto.randomUUID(),
+    type,
+    content,
+    order: 0,
+  };
+}
+
+const blockIdOf = (element: Element) =>
+  element.getAttribute('data-block-id') || crypto.randomUUID();
+
+function parseElements(elements: Element[]): Block[] {
+  return elements
+    .flatMap(parseElement)
+    .map((block, order) => ({ ...block, order }));
+}
+
+function parseElement(element: Element): Block[] {
+  const base = (type: BlockType, content = ''): Block => ({
+    id: blockIdOf(element),
+    type,
+    content,
+    order: 0,
+  });
+
+  switch (element.tagName) {
+    case 'P': {
+      // Markdown renders an image on its own line as a paragraph around it
+      const image = element.children.length === 1 && !element.textContent?.trim() ? element.children[0] : null;
+      if (image?.tagName === 'IMG') {
+        return parseElement(image);
+      }
+      return [{ ...base('text', element.innerHTML), ...alignOf(element) }];
+    }
+    case 'H1':
+    case 'H2':
+    case 'H3':
+    case 'H4':
+    case 'H5':
+    case 'H6':
+      return [{ ...base('heading', element.innerHTML), level: Number(element.tagName[1]), ...alignOf(element) }];
+    case 'UL':
+      if (element.getAttribute('data-type') === 'taskList') {
+        return listItems(element).map(li => parseListItem(li, 'todo'));
+      }
+      // Items starting with a checkbox, as in rendered Markdown, are todos
+      return listItems(element).map(li =>
+        checkboxOf(li) ? parseListItem(li, 'todo') : parseListItem(li, 'list', 'bullet'));
+    case 'OL':
+      return listItems(element).map(li => parseListItem(li, 'list', 'ordered'));
+    case 'BLOCKQUOTE':
+      return [parseContainer(element, 'quote')];
+    case 'DETAILS': {
+      // A <summary> leads, the way a toggle's first paragraph does
+      const summary = Array.from(element.children).find(child => child.tagName === 'SUMMARY');
+      const children = parseElements(Array.from(element.children).filter(child => child !== summary));
+      return [{
+        ...base('toggle', summary?.innerHTML ?? ''),
+        ...(element.hasAttribute('open') ? {} : { collapsed: true }),
+        ...(children.length > 0 ? { children } : {}),
+      }];
+    }
+    case 'HR':
+      return [base('divider')];
+    case 'TABLE':
+      return [{ ...base('table'), table: parseTable(element) }];
+    case 'IMG':
+      return [{ ...base('image'), ...imageOf(element) }];
+    case 'PRE': {
+      const code = element.querySelector('code');
+      const language = Array.from(code?.classList ?? [])
+        .find(className => className.startsWith('language-'))
+        ?.slice('language-'.length);
+      return [{ ...base('code', (code ?? element).textContent ?? ''), ...(language ? { language } : {}) }];
+    }
+    case 'DIV':
+      if (element.getAttribute('data-type') === 'pdf') {
+        const pdfId = element.getAttribute('data-pdf-id');
+        return [{
+          ...base('pdf'),
+          filePath: element.getAttribute('data-file-path') ?? undefined,
+          ...(pdfId ? { pdfId } : {}),
+        }];
+      }
+      if (element.getAttribute('data-type') === 'math') {
+        return [base('math', element.textContent ?? '')];
+      }
+      if (element.getAttribute('data-type') === 'diagram') {
+        return [base('diagram', element.textContent ?? '')];
+      }
+      if (element.getAttribute('data-type') === 'toggle') {
+        return [{
+          ...parseContainer(element, 'toggle'),
+          ...(element.getAttribute('data-collapsed') === 'true' ? { collapsed: true } : {}),
+        }];
+      }
+      if (element.getAttribute('data-type') === 'group') {
+        return parseGroup(element);
+      }
+      if (element.getAttribute('data-type') === 'callout') {
+        const icon = element.getAttribute('data-icon');
+        const color = element.getAttribute('data-color');
+        return [{
+          ...parseContainer(element, 'callout'),
+          ...(icon ? { icon } : {}),
+          ...(color ? { color } : {}),
+        }];
+      }
+      return parseWrapper(element);
+    default:
+      return parseWrapper(element);
+  }
+}
+
+// Tags that start a block of their own rather than continue a line of text
+const BLOCK_TAGS = new Set([
+  'P', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'BLOCKQUOTE', 'DETAILS',
+  'HR', 'TABLE', 'PRE', 'DIV', 'SECTION', 'ARTICLE', 'FIGURE', 'HEADER', 'FOOTER', 'MAIN',
+]);
+
+const isBlockElement = (node: ChildNode) =>
+  node.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((node as Element).tagName);
+
+// Wrappers such as <section> hold blocks of their own; anything else is a
+// line of text
+function parseWrapper(element: Element): Block[] {
+  if (Array.from(element.children).some(isBlockElement)) {
+    return parseElements(Array.from(element.children));
+  }
+  return element.textContent?.trim() || element.querySelector('img, br')
+    ? [{ id: blockIdOf(element), type: 'text', content: element.innerHTML, order: 0 }]
+    : [];
+}
+
+// Markup of a run of inline nodes, trimmed as a paragraph's text would be
+const inlineHTML = (nodes: ChildNode[]) =>
+  nodes
+    .map(node => {
+      if (node.nodeType === Node.ELEMENT_NODE) {
+        return (node as Element).outerHTML;
+      }
+      return node.nodeType === Node.TEXT_NODE ? escapeHTML(node.textContent ?? '') : '';
+    })
+    .join('')
+    .trim();
+
+const checkboxOf = (li: Element) =>
+  li.querySelector(':scope > input[type="checkbox"], :scope > p:first-child > input[type="checkbox"]');
+
+const listItems = (list: Element) =>
+  Array.from(list.children).filter(child => child.tagName === 'LI');
+
+function parseListItem(li: Element, type: 'list' | 'todo', listStyle?: 'bullet' | 'ordered'): Block {
+  // Task items wrap their content in a <div> next to the checkbox <label>
+  const container = type === 'todo'
+    ? Array.from(li.children).find(child => child.tagName === 'DIV') ?? li
+    : li;
+  // Rendered Markdown marks todos with a checkbox in the text instead
+  const checkbox = checkboxOf(li);
+  checkbox?.remove();
+  const nodes = Array.from(container.childNodes).filter(node => (node as Element).tagName !== 'LABEL');
+
+  // The item's text is its first paragraph, or the loose text before any
+  // nested block
+  const [first, ...rest] = nodes.filter(node => node.nodeType === Node.ELEMENT_NODE) as Element[];
+  const leadingText = nodes.slice(0, first ? nodes.indexOf(first) : nodes.length).some(node => node.textContent?.trim());
+  const hasLead = first?.tagName === 'P' && !leadingText;
+  const firstBlock = nodes.findIndex(isBlockElement);
+  const inline = hasLead ? [] : nodes.slice(0, firstBlock < 0 ? nodes.length : firstBlock);
+  const nested = hasLead
+    ? rest
+    : nodes.slice(inline.length).filter(node => node.nodeType === Node.ELEMENT_NODE) as Element[];
+  const children = parseElements(nested);
+
+  const block: Block = {
+    id: blockIdOf(li),
+    type,
+    content: hasLead ? first.innerHTML : inlineHTML(inline),
+    order: 0,
+    ...(hasLead ? alignOf(first) : {}),
+  };
+  if (type === 'todo') {
+    const checked = li.getAttribute('data-checked');
+    block.checked = checkbox
+      ? checkbox.hasAttribute('checked')
+      : checked === 'true' || checked === '';
+    const dueDate = li.getAttribute('data-due-date');
+    const priority = li.getAttribute('data-priority') as TaskPriority | null;
+    if (dueDate) {
+      block.dueDate = dueDate;
+    }
+    if (priority && PRIORITIES.includes(priority)) {
+      block.priority = priority;
+    }
+  } else {
+    block.listStyle = listStyle;
+  }
+  if (children.length > 0) {
+    block.children = children;
+  }
+  return block;
+}
+
+// The first paragraph of a container is its text; the blocks after it are
+// its children
+function parseContainer(element: Element, type: 'toggle' | 'quote' | 'callout'): Block {
+  const [first, ...rest] = Array.from(element.children);
+  const hasLead = first?.tagName === 'P';
+  const children = parseElements(hasLead ? rest : Array.from(element.children));
+  return {
+    id: blockIdOf(element),
+    type,
+    content: hasLead ? first.innerHTML : '',
+    order: 0,
+    ...(hasLead ? alignOf(first) : {}),
+    ...(children.length > 0 ? { children } : {}),
+  };
+}
+
+// A group's first block is the one the others are children of
+function parseGroup(element: Element): Block[] {
+  const [first, ...rest] = parseElements(Array.from(element.children));
+  if (!first) {
+    return [];
+  }
+  const children = [...(first.children ?? []), ...rest].map((child, order) => ({ ...child, order }));
+  return [{ ...first, ...(children.length > 0 ? { children } : {}) }];
+}
+
+// Plain text of a block's own content, with inline markup stripped.
+export function blockToPlainText(block: Block): string {
+  if (isSourceBlock(block)) {
+    return block.content;
+  }
+  if (block.type === 'table') {
+    return (block.table?.rows ?? [])
+      .map(row => row.map(htmlToText).join('\t'))
+      .join('\n');
+  }
+  return htmlToText(block.content);
+}
+
+function htmlToText(html: string): string {
+  if (!html) {
+    return '';
+  }
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return doc.body.textContent ?? '';
+}
@@ -0,0 +1,21 @@
+// Notion's palette, shared by text colors, highlights and callouts.
+// Highlights and callout backgrounds use the lighter shade of each color.
+export const COLORS = [
+  { name: 'Gray', text: '#787774', highlight: '#f1f1ef' },
+  { name: 'Brown', text: '#9f6b53', highlight: '#f4eeee' },
+  { name: 'Orange', text: '#d9730d', highlight: '#fbecdd' },
+  { name: 'Yellow', text: '#cb912f', highlight: '#fbf3db' },
+  { name: 'Green', text: '#448361', highlight: '#edf3ec' },
+  { name: 'Blue', text: '#337ea9', highlight: '#e7f3f8' },
+  { name: 'Purple', text: '#9065b0', highlight: '#f6f3f9' },
+  { name: 'Pink', text: '#c14c8a', highlight: '#faf1f5' },
+  { name: 'Red', text: '#d44c47', highlight: '#fdebec' },
+];
+
+export type PaletteColor = (typeof COLORS)[number];
+
+// Colors are saved by lowercase name, e.g. "blue"
+export const colorId = (color: PaletteColor) => color.name.toLowerCase();
+
+export const findColor = (id: string | null | undefined): PaletteColor | undefined =>
+  COLORS.find(color => colorId(color) === id);
@@ -0,0 +1,28 @@
+import type { Mermaid } from 'mermaid';
+
+// Mermaid diagrams rendered to SVG by the copy bundled with the app, so they
+// work offline. Mermaid is large, so it is only loaded once a note needs it.
+
+let mermaidLoad: Promise<Mermaid> | null = null;
+
+const loadMermaid = (): Promise<Mermaid> => {
+  mermaidLoad ??= import('mermaid').then(({ default: mermaid }) => {
+    // Strict keeps scripts and click handlers in the source from running
+    mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', theme: 'neutral' });
+    return mermaid;
+  });
+  return mermaidLoad;
+};
+
+let renderCount = 0;
+
+// SVG markup for a diagram. Invalid source rejects with Mermaid's parse
+// error, whose message says where the syntax went wrong.
+export async function renderDiagram(source: string): Promise<string> {
+  const mermaid = await loadMermaid();
+  // Parsing first keeps Mermaid from leaving its error graphic in the page
+  await mermaid.parse(source);
+  renderCount += 1;
+  const { svg } = await mermaid.render(`diagram-${renderCount}`, source);
+  return svg;
+}
@@ -0,0 +1,78 @@
+import { Folder, Note, NoteMetadata } from '../types';
+import { NoteRepository } from './repository';
+import { WriteQueue, isActive, updateNote } from './notes';
+
+export interface FavoriteItem {
+  kind: 'note' | 'folder';
+  id: string;
+  name: string;
+  favoriteOrder: number;
+}
+
+// Favorited notes and folders in their manual order. Trashed and archived
+// notes drop out until they come back.
+export function getFavorites(notes: NoteMetadata[], folders: Folder[]): FavoriteItem[] {
+  const items: FavoriteItem[] = [
+    ...notes
+      .filter(note => note.favorite && isActive(note))
+      .map(note => ({ kind: 'note' as const, id: note.id, name: note.title, favoriteOrder: note.favoriteOrder ?? 0 })),
+    ...folders
+      .filter(folder => folder.favorite)
+      .map(folder => ({ kind: 'folder' as const, id: folder.id, name: folder.name, favoriteOrder: folder.favoriteOrder ?? 0 })),
+  ];
+  return items.sort((a, b) => a.favoriteOrder - b.favoriteOrder || a.name.localeCompare(b.name));
+}
+
+const saveFavoriteState = async (
+  repository: NoteRepository,
+  writeNote: WriteQueue,
+  folders: Folder[],
+  item: Pick<FavoriteItem, 'kind' | 'id'>,
+  favorite: boolean,
+  favoriteOrder?: number,
+): Promise<Note | undefined> => {
+  const patch = { favorite: favorite || undefined, favoriteOrder: favorite ? favoriteOrder : undefined };
+  if (item.kind === 'note') {
+    return updateNote(repository, writeNote, item.id, patch);
+  }
+  const folder = folders.find(f => f.id === item.id);
+  if (folder) {
+    await repository.saveFolder({ ...folder, ...patch });
+  }
+  return undefined;
+};
+
+// Stars or unstars an item; newly starred items go to the end of the list.
+// Returns the saved note when the item is one.
+export async function setFavorite(
+  repository: NoteRepository,
+  writeNote: WriteQueue,
+  notes: NoteMetadata[],
+  folders: Folder[],
+  item: Pick<FavoriteItem, 'kind' | 'id'>,
+  favorite: boolean,
+): Promise<Note | undefined> {
+  const favorites = getFavorites(notes, folders);
+  const nextOrder = favorites.length > 0 ? favorites[favorites.length - 1].favoriteOrder + 1 : 0;
+  return saveFavoriteState(repository, writeNote, folders, item, favorite, nextOrder);
+}
+
+// Persists a new manual order, only writing items whose position changed.
+// Returns the notes it saved.
+export async function reorderFavorites(
+  repository: NoteRepository,
+  writeNote: WriteQueue,
+  folders: Folder[],
+  ordered: FavoriteItem[],
+): Promise<Note[]> {
+  const savedNotes: Note[] = [];
+  for (const [index, item] of ordered.entries()) {
+    if (item.favoriteOrder !== index) {
+      const savedNote = await saveFavoriteState(repository, writeNote, folders, item, true, index);
+      if (savedNote) {
+        savedNotes.push(savedNote);
+      }
+    }
+  }
+  return savedNotes;
+}
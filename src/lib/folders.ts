@@ -0,0 +1,87 @@
+import { Folder, Note, NoteMetadata } from '../types';
+import { NoteRepository } from './repository';
+import { WriteQueue, trashNote, updateNote } from './notes';
+
+// What happens to a folder's notes and subfolders when it is deleted.
+export type FolderDeleteMode = 'withContents' | 'moveContentsUp';
+
+// Ids of every folder nested (at any depth) under `folderId`.
+export function getDescendantFolderIds(folders: Folder[], folderId: string): string[] {
+  const children = folders.filter(folder => folder.parentId === folderId);
+  return children.flatMap(child => [child.id, ...getDescendantFolderIds(folders, child.id)]);
+}
+
+// Ancestors of a folder from the root down, including the folder itself.
+export function getFolderPath(folders: Folder[], folderId?: string): Folder[] {
+  const path: Folder[] = [];
+  const visited = new Set<string>();
+  let current = folders.find(folder => folder.id === folderId);
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    path.unshift(current);
+    const parentId = current.parentId;
+    current = folders.find(folder => folder.id === parentId);
+  }
+  return path;
+}
+
+export async function deleteFolder(
+  repository: NoteRepository,
+  writeNote: WriteQueue,
+  folders: Folder[],
+  notes: NoteMetadata[],
+  folderId: string,
+  mode: FolderDeleteMode,
+): Promise<void> {
+  const folder = folders.find(f => f.id === folderId);
+  if (!folder) {
+    return;
+  }
+
+  if (mode === 'withContents') {
+    // Notes go to the Trash rather than being deleted outright
+    const doomed = new Set([folderId, ...getDescendantFolderIds(folders, folderId)]);
+    for (const note of notes.filter(n => n.folderId && doomed.has(n.folderId) && !n.trashedAt)) {
+      await trashNote(repository, writeNote, note.id);
+    }
+    for (const id of doomed) {
+      await repository.deleteFolder(id);
+    }
+    return;
+  }
+
+  // Re-home direct children one level up before the folder disappears
+  const timestamp = new Date().toISOString();
+  for (const child of folders.filter(f => f.parentId === folderId)) {
+    await repository.saveFolder({ ...child, parentId: folder.parentId, updatedAt: timestamp });
+  }
+  for (const note of notes.filter(n => n.folderId === folderId)) {
+    await moveNote(repository, writeNote, note.id, folder.parentId);
+  }
+  await repository.deleteFolder(folderId);
+}
+
+export async function moveNote(
+  repository: NoteRepository,
+  writeNote: WriteQueue,
+  noteId: string,
+  folderId?: string,
+): Promise<Note> {
+  return updateNote(repository, writeNote, noteId, { folderId });
+}
+
+export async function moveFolder(
+  repository: NoteRepository,
+  folders: Folder[],
+  folderId: string,
+  parentId?: string,
+): Promise<void> {
+  const folder = folders.find(f => f.id === folderId);
+  if (!folder) {
+    return;
+  }
+  if (parentId === folderId || (parentId && getDescendantFolderIds(folders, folderId).includes(parentId))) {
+    throw new Error('A folder cannot be moved into itself');
+  }
+  await repository.saveFolder({ ...folder, parentId, updatedAt: new Date().toISOString() });
+}
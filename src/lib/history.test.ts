@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { Block } from '../types';
+import { createLocalRepository, createMemoryStore } from './repository';
+import { createHistoryRecorder } from './history';
+import { createWriteQueue } from './notes';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const text = (id: string, content: string): Block => ({ id, type: 'text', content, order: 0 });
+
+describe('createHistoryRecorder', () => {
+  it('restores a version after the saves already queued for the note', async () => {
+    const repository = createLocalRepository(createMemoryStore());
+    const writeNote = createWriteQueue();
+    const history = createHistoryRecorder(repository, writeNote);
+    const note = { ...(await repository.createNote('Note')), blocks: [text('a', 'Original')] };
+    await repository.saveNote(note);
+
+    // An autosave held up behind a slow history check, as in App's saveNote
+    const autosave = writeNote(note.id, async () => {
+      await delay(20);
+      await repository.saveNote({ ...note, blocks: [text('a', 'Edited')] });
+    });
+    const restored = history.restore({ ...note, blocks: [text('a', 'Restored')] });
+    await Promise.all([autosave, restored]);
+
+    expect((await repository.loadNote(note.id)).blocks).toEqual([text('a', 'Restored')]);
+    // The edit it replaced can be restored in turn
+    const [latest] = await repository.listSnapshots(note.id);
+    expect(latest.blocks).toEqual([text('a', 'Edited')]);
+  });
+});
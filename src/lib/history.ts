@@ -0,0 +1,181 @@
+import { Block, Note, NoteSnapshot } from '../types';
+import { NoteRepository } from './repository';
+import { WriteQueue } from './notes';
+
+// At most one automatic snapshot per note in this window
+export const SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000;
+
+// Retention: everything from the last day, then the newest snapshot of each
+// day for a month, never more than MAX_SNAPSHOTS in total.
+const KEEP_ALL_FOR_MS = 24 * 60 * 60 * 1000;
+const KEEP_DAILY_FOR_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_SNAPSHOTS = 100;
+
+export function createSnapshot(note: Note): NoteSnapshot {
+  return {
+    id: `snapshot_${crypto.randomUUID()}`,
+    noteId: note.id,
+    title: note.title,
+    blocks: note.blocks,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+const sameContent = (a: { title: string; blocks: Block[] }, b: { title: string; blocks: Block[] }) =>
+  a.title === b.title && JSON.stringify(a.blocks) === JSON.stringify(b.blocks);
+
+// Snapshots (newest first) that fall outside the retention policy.
+export function selectExpiredSnapshots(snapshots: NoteSnapshot[], now = Date.now()): NoteSnapshot[] {
+  const keptDays = new Set<string>();
+  return snapshots.filter((snapshot, index) => {
+    if (index >= MAX_SNAPSHOTS) {
+      return true;
+    }
+    const age = now - new Date(snapshot.createdAt).getTime();
+    if (age <= KEEP_ALL_FOR_MS) {
+      return false;
+    }
+    if (age > KEEP_DAILY_FOR_MS) {
+      return true;
+    }
+    const day = snapshot.createdAt.slice(0, 10);
+    if (keptDays.has(day)) {
+      return true;
+    }
+    keptDays.add(day);
+    return false;
+  });
+}
+
+// Decides when autosaves should leave a snapshot behind. The stored version
+// of a note is copied *before* it is overwritten, so the state from before a
+// bad edit is always recoverable.
+export function createHistoryRecorder(repository: NoteRepository, writeNote: WriteQueue) {
+  const lastSnapshotAt = new Map<string, number>();
+
+  const latestSnapshotTime = async (noteId: string) => {
+    if (!lastSnapshotAt.has(noteId)) {
+      const [latest] = await repository.listSnapshots(noteId);
+      lastSnapshotAt.set(noteId, latest ? new Date(latest.createdAt).getTime() : 0);
+    }
+    return lastSnapshotAt.get(noteId)!;
+  };
+
+  const prune = async (noteId: string) => {
+    const expired = selectExpiredSnapshots(await repository.listSnapshots(noteId));
+    for (const snapshot of expired) {
+      await repository.deleteSnapshot(noteId, snapshot.id);
+    }
+  };
+
+  // Unconditionally snapshot `note`, unless it matches the newest snapshot.
+  const snapshot = async (note: Note) => {
+    const [latest] = await repository.listSnapshots(note.id);
+    if (latest && sameContent(latest, note)) {
+      return;
+    }
+    const created = createSnapshot(note);
+    await repository.saveSnapshot(created);
+    lastSnapshotAt.set(note.id, new Date(created.createdAt).getTime());
+    await prune(note.id);
+  };
+
+  // Call before saving `noteId`; snapshots the stored copy when one is due.
+  const beforeSave = async (noteId: string, now = Date.now()) => {
+    if (now - (await latestSnapshotTime(noteId)) < SNAPSHOT_INTERVAL_MS) {
+      return;
+    }
+    // Claim the slot first so rapid autosaves do not all take a snapshot
+    lastSnapshotAt.set(noteId, now);
+    await snapshot(await repository.loadNote(noteId));
+  };
+
+  // Overwrites a note with restored content, after the saves already queued
+  // for it. What it replaces is snapshotted so the restore can be undone.
+  const restore = (note: Note) => writeNote(note.id, async () => {
+    await snapshot(await repository.loadNote(note.id));
+    const restoredNote = { ...note, updatedAt: new Date().toISOString() };
+    await repository.saveNote(restoredNote);
+    return restoredNote;
+  });
+
+  return { beforeSave, snapshot, restore };
+}
+
+export type HistoryRecorder = ReturnType<typeof createHistoryRecorder>;
+
+export type BlockChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface BlockDiff {
+  change: BlockChange;
+  // The block as it is in the snapshot (absent for `added`)
+  before?: Block;
+  // The block as it is now (absent for `removed`)
+  after?: Block;
+}
+
+const blockSignature = ({ order: _order, ...block }: Block) => JSON.stringify(block);
+
+// Compares top-level blocks by id, in current-document order, with removed
+// blocks listed where they used to sit.
+export function diffBlocks(snapshotBlocks: Block[], currentBlocks: Block[]): BlockDiff[] {
+  const before = [...snapshotBlocks].sort((a, b) => a.order - b.order);
+  const after = [...currentBlocks].sort((a, b) => a.order - b.order);
+  const beforeById = new Map(before.map(block => [block.id, block]));
+  const afterIds = new Set(after.map(block => block.id));
+
+  const diffs: BlockDiff[] = [];
+  let beforeIndex = 0;
+
+  const flushRemoved = (untilId?: string) => {
+    while (beforeIndex < before.length && before[beforeIndex].id !== untilId) {
+      const block = before[beforeIndex];
+      if (!afterIds.has(block.id)) {
+        diffs.push({ change: 'removed', before: block });
+      }
+      beforeIndex += 1;
+    }
+  };
+
+  after.forEach(block => {
+    const previous = beforeById.get(block.id);
+    if (!previous) {
+      diffs.push({ change: 'added', after: block });
+      return;
+    }
+    flushRemoved(block.id);
+    beforeIndex += 1;
+    diffs.push({
+      change: blockSignature(previous) === blockSignature(block) ? 'unchanged' : 'changed',
+      before: previous,
+      after: block,
+    });
+  });
+  flushRemoved();
+
+  return diffs;
+}
+
+// Puts one snapshot block back into `blocks`: replaces the block with the
+// same id, or re-inserts it after the block that preceded it in the snapshot.
+export function restoreBlock(blocks: Block[], snapshotBlocks: Block[], block: Block): Block[] {
+  const current = [...blocks].sort((a, b) => a.order - b.order);
+  const existing = current.findIndex(b => b.id === block.id);
+
+  if (existing >= 0) {
+    current[existing] = { ...block };
+  } else {
+    const snapshotOrder = [...snapshotBlocks].sort((a, b) => a.order - b.order);
+    const position = snapshotOrder.findIndex(b => b.id === block.id);
+    const precedingIds = snapshotOrder.slice(0, position).map(b => b.id);
+    let insertAt = 0;
+    current.forEach((b, index) => {
+      if (precedingIds.includes(b.id)) {
+        insertAt = index + 1;
+      }
+    });
+    current.splice(insertAt, 0, { ...block });
+  }
+
+  return current.map((b, order) => ({ ...b, order }));
+}
@@ -0,0 +1,113 @@
+import katex from 'katex';
+import { Note } from '../types';
+import { AttachmentStore, isAttachmentPath } from './attachments';
+import { blocksToHTML, escapeHTML } from './blocks';
+import { findColor } from './colors';
+import { renderDiagram } from './diagrams';
+
+// HTML export of notes: one standalone page built from the blocks' editor
+// HTML. Diagrams and equations are rendered up front and vault images are
+// inlined, so the page opens anywhere without the app or a network.
+
+const STYLES = `
+body { max-width: 720px; margin: 2rem auto; padding: 0 1rem; font-family: system-ui, sans-serif; line-height: 1.6; color: #37352f; }
+img { max-width: 100%; }
+figure { margin: 1rem 0; }
+figcaption { color: #787774; font-size: 0.875rem; }
+pre { padding: 0.75rem 1rem; border-radius: 0.5rem; background: #f1f3f5; overflow-x: auto; }
+blockquote { margin-left: 0; padding-left: 1rem; border-left: 3px solid #e5e7eb; }
+table { border-collapse: collapse; }
+th, td { padding: 0.25rem 0.5rem; border: 1px solid #e5e7eb; text-align: left; }
+th p, td p { margin: 0; }
+.callout { display: flex; gap: 0.5rem; padding: 0.75rem 1rem; border-radius: 0.25rem; }
+.callout > div > :first-child { margin-top: 0; }
+.diagram { overflow-x: auto; text-align: center; }
+div[data-type="group"] > :not(:first-child) { margin-left: 1.5rem; }
+`;
+
+const replaceWith = (element: Element, html: string) => {
+  element.insertAdjacentHTML('beforebegin', html);
+  element.remove();
+};
+
+async function renderBlocks(body: HTMLElement, attachments: AttachmentStore) {
+  for (const image of Array.from(body.querySelectorAll('img'))) {
+    const src = image.getAttribute('src') ?? '';
+    if (isAttachmentPath(src)) {
+      image.setAttribute('src', await attachments.toDataURL(src));
+    }
+    const align = image.getAttribute('data-align');
+    const caption = image.getAttribute('data-caption');
+    if (caption) {
+      image.setAttribute('alt', caption);
+    }
+    if (caption || (align && align !== 'left')) {
+      const style = align && align !== 'left' ? ` style="text-align: ${escapeHTML(align)}"` : '';
+      const figcaption = caption ? `<figcaption>${escapeHTML(caption)}</figcaption>` : '';
+      replaceWith(image, `<figure${style}>${image.outerHTML}${figcaption}</figure>`);
+    }
+  }
+
+  // Invalid diagrams keep their source, as a code block
+  for (const diagram of Array.from(body.querySelectorAll('div[data-type="diagram"]'))) {
+    const source = diagram.textContent ?? '';
+    try {
+      replaceWith(diagram, `<div class="diagram">${await renderDiagram(source)}</div>`);
+    } catch {
+      replaceWith(diagram, `<pre><code class="language-mermaid">${escapeHTML(source)}</code></pre>`);
+    }
+  }
+
+  // MathML renders in browsers without KaTeX's stylesheet and fonts
+  const math = (latex: string, displayMode: boolean) =>
+    katex.renderToString(latex, { displayMode, output: 'mathml', throwOnError: false });
+  body.querySelectorAll('div[data-type="math"]').forEach(element => {
+    replaceWith(element, `<div class="math">${math(element.textContent ?? '', true)}</div>`);
+  });
+  body.querySelectorAll('span[data-type="inlineMath"]').forEach(element => {
+    replaceWith(element, math(element.getAttribute('data-latex') ?? '', false));
+  });
+
+  // Containers: the first paragraph is the toggle summary or callout text.
+  // Innermost first, as rebuilding a container replaces what it holds.
+  const innermostFirst = (selector: string) => Array.from(body.querySelectorAll(selector)).reverse();
+  innermostFirst('div[data-type="toggle"]').forEach(toggle => {
+    const [summary, ...rest] = Array.from(toggle.children);
+    const open = toggle.getAttribute('data-collapsed') === 'true' ? '' : ' open';
+    replaceWith(toggle, `<details${open}><summary>${summary?.innerHTML ?? ''}</summary>` +
+      `${rest.map(child => child.outerHTML).join('')}</details>`);
+  });
+  innermostFirst('div[data-type="callout"]').forEach(callout => {
+    const color = findColor(callout.getAttribute('data-color')) ?? findColor('gray')!;
+    const icon = escapeHTML(callout.getAttribute('data-icon') ?? '');
+    replaceWith(callout, `<div class="callout" style="background-color: ${color.highlight}">` +
+      `<span>${icon}</span><div>${callout.innerHTML}</div></div>`);
+  });
+
+  body.querySelectorAll('div[data-type="pdf"]').forEach(pdf => {
+    const path = pdf.getAttribute('data-file-path') ?? '';
+    const name = escapeHTML(path.split(/[\\/]/).pop() || 'PDF');
+    replaceWith(pdf, `<p><a href="${escapeHTML(path)}">${name}</a></p>`);
+  });
+
+  body.querySelectorAll('[data-block-id]').forEach(element => element.removeAttribute('data-block-id'));
+}
+
+export async function exportNoteHTML(note: Note, attachments: AttachmentStore): Promise<string> {
+  const doc = new DOMParser().parseFromString(blocksToHTML(note.blocks), 'text/html');
+  await renderBlocks(doc.body, attachments);
+  const title = escapeHTML(note.title || 'Untitled');
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${title}</h1>
+${doc.body.innerHTML}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,102 @@
+import { Block, Note, NoteMetadata } from '../types';
+import { blockToPlainText, isSourceBlock } from './blocks';
+import { isActive } from './notes';
+
+// Links between notes. A `[[link]]` is saved in block HTML as
+// `<span data-type="noteLink" data-note-id="...">Title</span>`; the id is what
+// counts, the text is only the title at the time the link was made.
+
+// A link from one block of `sourceId` to `targetId`
+export interface NoteLinkEntry {
+  sourceId: string;
+  sourceTitle: string;
+  targetId: string;
+  blockId: string;
+  // The linking block's text, shown as context in the Backlinks panel
+  context: string;
+}
+
+export const NOTE_LINK_SELECTOR = 'span[data-type="noteLink"]';
+
+const flattenBlocks = (blocks: Block[]): Block[] =>
+  blocks.flatMap(block => [block, ...flattenBlocks(block.children ?? [])]);
+
+// Inline HTML of a block: its content, or each cell of a table
+const inlineHTML = (block: Block): string[] =>
+  block.type === 'table' ? (block.table?.rows ?? []).flat() : [block.content];
+
+// Ids of the notes a block links to, in order of appearance
+export function linkedNoteIds(block: Block): string[] {
+  if (isSourceBlock(block)) {
+    return [];
+  }
+  return inlineHTML(block)
+    .filter(html => html.includes('noteLink'))
+    .flatMap(html => {
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      return Array.from(doc.querySelectorAll(NOTE_LINK_SELECTOR), element => element.getAttribute('data-note-id'));
+    })
+    .filter((id): id is string => Boolean(id));
+}
+
+export const collectLinks = (note: Note): NoteLinkEntry[] =>
+  flattenBlocks(note.blocks).flatMap(block =>
+    Array.from(new Set(linkedNoteIds(block))).map(targetId => ({
+      sourceId: note.id,
+      sourceTitle: note.title,
+      targetId,
+      blockId: block.id,
+      context: blockToPlainText(block),
+    })));
+
+// Swaps in a note's current links after it was saved
+export const replaceNoteLinks = (links: NoteLinkEntry[], note: Note): NoteLinkEntry[] =>
+  [...links.filter(link => link.sourceId !== note.id), ...collectLinks(note)];
+
+// Adds the links of notes loaded at startup: every note, archived and
+// trashed ones included so they are there once a note is restored (see
+// getBacklinks). Notes in `saved` already have their current links.
+export function mergeLoadedLinks(links: NoteLinkEntry[], notes: Note[], saved: Set<string>): NoteLinkEntry[] {
+  const loaded = notes.filter(note => !saved.has(note.id));
+  const loadedIds = new Set(loaded.map(note => note.id));
+  return [...links.filter(link => !loadedIds.has(link.sourceId)), ...loaded.flatMap(collectLinks)];
+}
+
+// Rewrites link text to each target's current title, so text read from the
+// saved HTML (exports, backlink context) follows renames
+export function refreshLinkLabels(blocks: Block[], notes: NoteMetadata[]): Block[] {
+  const titles = new Map(notes.map(note => [note.id, note.title || 'Untitled']));
+  const relabel = (html: string) => {
+    if (!html.includes('noteLink')) {
+      return html;
+    }
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    doc.querySelectorAll(NOTE_LINK_SELECTOR).forEach(element => {
+      const title = titles.get(element.getAttribute('data-note-id') ?? '');
+      if (title !== undefined) {
+        element.textContent = title;
+      }
+    });
+    return doc.body.innerHTML;
+  };
+  return blocks.map(block => {
+    if (isSourceBlock(block)) {
+      return block;
+    }
+    return {
+      ...block,
+      content: relabel(block.content),
+      table: block.table && { ...block.table, rows: block.table.rows.map(row => row.map(relabel)) },
+      children: block.children && refreshLinkLabels(block.children, notes),
+    };
+  });
+}
+
+// Links into `noteId` from other active notes, with each source's current title
+export function getBacklinks(links: NoteLinkEntry[], notes: NoteMetadata[], noteId: string): NoteLinkEntry[] {
+  const active = new Map(notes.filter(isActive).map(note => [note.id, note]));
+  return links
+    .filter(link => link.targetId === noteId && link.sourceId !== noteId && active.has(link.sourceId))
+    .map(link => ({ ...link, sourceTitle: active.get(link.sourceId)!.title }))
+    .sort((a, b) => a.sourceTitle.localeCompare(b.sourceTitle));
+}
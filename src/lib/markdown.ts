@@ -0,0 +1,258 @@
+import { Marked, Tokens } from 'marked';
+import { Block, BlockType, Note } from '../types';
+import { AttachmentStore, isAttachmentPath } from './attachments';
+import { escapeHTML, htmlToBlocks } from './blocks';
+import { findColor } from './colors';
+
+// Markdown export and import of notes. Inline HTML from the editor is turned
+// back into Markdown marks; anything Markdown cannot express (colors, image
+// size and alignment) is written as inline HTML, which most renderers accept.
+// Imported Markdown is rendered to HTML and read like editor HTML.
+
+export interface MarkdownOptions {
+  // Rewrites image sources, e.g. to inline vault attachments
+  imageSrc?: (src: string) => string;
+}
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]<>])/g, '\\$1');
+
+function inlineToMarkdown(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return escapeMarkdown(node.textContent ?? '');
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return '';
+  }
+  const element = node as HTMLElement;
+  const inner = Array.from(element.childNodes).map(inlineToMarkdown).join('');
+  // Marks wrap trimmed text so "**bold **" does not break the syntax
+  const wrap = (marker: string) => {
+    const [, lead, body, trail] = inner.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    return body ? `${lead}${marker}${body}${marker}${trail}` : inner;
+  };
+
+  switch (element.tagName) {
+    case 'STRONG':
+    case 'B':
+      return wrap('**');
+    case 'EM':
+    case 'I':
+      return wrap('*');
+    case 'S':
+    case 'DEL':
+      return wrap('~~');
+    case 'CODE': {
+      const text = element.textContent ?? '';
+      const fence = text.includes('`') ? '``' : '`';
+      return `${fence}${text}${fence}`;
+    }
+    case 'A':
+      return `[${inner}](${element.getAttribute('href') ?? ''})`;
+    case 'BR':
+      return '  \n';
+    case 'U':
+      return `<u>${inner}</u>`;
+    case 'MARK':
+      return `<mark>${inner}</mark>`;
+    case 'SPAN':
+      // Note links keep their wiki syntax, which most Markdown vaults understand
+      if (element.getAttribute('data-type') === 'noteLink') {
+        return `[[${element.textContent ?? ''}]]`;
+      }
+      // Equations are written as LaTeX between dollar signs, unescaped
+      if (element.getAttribute('data-type') === 'inlineMath') {
+        return `$${element.getAttribute('data-latex') ?? element.textContent ?? ''}$`;
+      }
+      return inner;
+    default:
+      return inner;
+  }
+}
+
+export function htmlToMarkdownInline(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return Array.from(doc.body.childNodes).map(inlineToMarkdown).join('');
+}
+
+function imageToMarkdown(block: Block, options: MarkdownOptions): string {
+  const path = block.filePath ?? '';
+  const src = options.imageSrc?.(path) ?? path;
+  const caption = block.caption ?? '';
+  let image: string;
+  if (block.width || (block.align && block.align !== 'left')) {
+    const width = block.width ? ` width="${block.width}"` : '';
+    image = `<img src="${escapeHTML(src)}" alt="${escapeHTML(caption)}"${width}>`;
+    if (block.align && block.align !== 'left') {
+      image = `<p align="${block.align}">${image}</p>`;
+    }
+  } else {
+    image = `![${escapeMarkdown(caption)}](${src.includes(' ') ? `<${src}>` : src})`;
+  }
+  return caption ? `${image}\n\n*${escapeMarkdown(caption)}*` : image;
+}
+
+// GFM needs a header row, so a table without one gets an empty header
+function tableToMarkdown(block: Block): string {
+  const rows = block.table?.rows ?? [];
+  const width = Math.max(1, ...rows.map(row => row.length));
+  // Pipes would end the cell and line breaks the row
+  const cell = (html: string) =>
+    htmlToMarkdownInline(html).replace(/\|/g, '\\|').replace(/ *\n/g, '<br>').trim();
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+  const [header, ...body] = block.table?.headerRow ? rows : [[], ...rows];
+  return [
+    line(header.map(cell)),
+    line(Array(width).fill('---')),
+    ...body.map(row => line(row.map(cell))),
+  ].join('\n');
+}
+
+// The fence must be longer than any backtick run inside the code
+function fenced(code: string, info: string): string {
+  const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${fence}${info}\n${code}\n${fence}`;
+}
+
+function blockToMarkdown(block: Block, options: MarkdownOptions, listIndex: number): string {
+  const text = htmlToMarkdownInline(block.content);
+  switch (block.type) {
+    case 'heading':
+      return `${'#'.repeat(Math.min(Math.max(block.level ?? 1, 1), 6))} ${text}`;
+    case 'list':
+      return block.listStyle === 'ordered' ? `${listIndex + 1}. ${text}` : `- ${text}`;
+    case 'todo':
+      return `- [${block.checked ? 'x' : ' '}] ${text}`;
+    case 'divider':
+      return '---';
+    case 'code':
+      return fenced(block.content, block.language ?? '');
+    case 'diagram':
+      return fenced(block.content, 'mermaid');
+    case 'math':
+      return `$$\n${block.content.trim()}\n$$`;
+    case 'image':
+      return imageToMarkdown(block, options);
+    case 'pdf': {
+      const path = block.filePath ?? '';
+      return `[${escapeMarkdown(path.split(/[\\/]/).pop() || 'PDF')}](${path})`;
+    }
+    case 'table':
+      return tableToMarkdown(block);
+    case 'toggle':
+      return `<details><summary>${text}</summary>`;
+    case 'callout': {
+      // Markdown has no callouts; a colored box keeps the look where HTML renders
+      const color = findColor(block.color) ?? findColor('gray')!;
+      return `<div style="background-color: ${color.highlight}; padding: 12px 16px; border-radius: 4px;">\n\n${block.icon ?? ''} ${text}`.trimEnd();
+    }
+    case 'text':
+    default:
+      return text;
+  }
+}
+
+const isListItem = (block: Block) => block.type === 'list' || block.type === 'todo';
+
+// HTML containers are closed after their children
+const CLOSING_TAGS: Partial<Record<BlockType, string>> = {
+  toggle: '</details>',
+  callout: '</div>',
+};
+
+export function blocksToMarkdown(blocks: Block[], options: MarkdownOptions = {}, indent = ''): string {
+  const lines: string[] = [];
+  let listIndex = 0;
+  const ordered = [...blocks].sort((a, b) => a.order - b.order);
+  ordered.forEach((block, i) => {
+    const previous = ordered[i - 1];
+    const continuesList = isListItem(block) && previous?.type === block.type && previous.listStyle === block.listStyle;
+    listIndex = continuesList ? listIndex + 1 : 0;
+    // Items of the same list stay together; everything else is a paragraph
+    if (i > 0) {
+      lines.push(continuesList ? '\n' : '\n\n');
+    }
+    let markdown = blockToMarkdown(block, options, listIndex);
+    if (block.children?.length) {
+      // List children nest under the item's text; others follow as siblings
+      const childIndent = isListItem(block) ? ' '.repeat(markdown.indexOf(' ') + 1) : '';
+      markdown += `${isListItem(block) ? '\n' : '\n\n'}${blocksToMarkdown(block.children, options, childIndent)}`;
+    }
+    const closingTag = CLOSING_TAGS[block.type];
+    if (closingTag) {
+      // A blank line before the closing tag ends the Markdown inside it
+      markdown += `\n\n${closingTag}`;
+    }
+    if (block.type === 'quote') {
+      // Children are quoted along with the text
+      markdown = markdown.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+    }
+    lines.push(markdown.split('\n').map((line, n) => (n === 0 || line ? indent + line : line)).join('\n'));
+  });
+  return lines.join('');
+}
+
+export const noteToMarkdown = (note: Note, options: MarkdownOptions = {}) =>
+  `# ${escapeMarkdown(note.title || 'Untitled')}\n\n${blocksToMarkdown(note.blocks, options)}\n`;
+
+const imageSources = (blocks: Block[]): string[] =>
+  blocks.flatMap(block => [
+    ...(block.type === 'image' && block.filePath ? [block.filePath] : []),
+    ...imageSources(block.children ?? []),
+  ]);
+
+// A single self-contained Markdown file: vault images are inlined as data
+// URLs, since the attachments folder does not travel with the export.
+export async function exportNoteMarkdown(note: Note, attachments: AttachmentStore): Promise<string> {
+  const inlined = new Map<string, string>();
+  for (const src of imageSources(note.blocks).filter(isAttachmentPath)) {
+    inlined.set(src, await attachments.toDataURL(src));
+  }
+  return noteToMarkdown(note, { imageSrc: src => inlined.get(src) ?? src });
+}
+
+// GFM plus the `$$` blocks, `$` equations and `mermaid` fences that
+// blocksToMarkdown writes, rendered the way the editor stores them
+const markdownParser = new Marked({
+  gfm: true,
+  extensions: [
+    {
+      name: 'blockMath',
+      level: 'block',
+      start: src => src.match(/^\$\$/m)?.index,
+      tokenizer: src => {
+        const match = /^\$\$[ \t]*\n?([\s\S]+?)\n?\$\$[ \t]*(?:\n|$)/.exec(src);
+        return match ? { type: 'blockMath', raw: match[0], text: match[1].trim() } : undefined;
+      },
+      renderer: token => `<div data-type="math">${escapeHTML(token.text)}</div>`,
+    },
+    {
+      name: 'inlineMath',
+      level: 'inline',
+      start: src => src.indexOf('$'),
+      // Same shape as the editor's input rule, so prices such as "$5" stay text
+      tokenizer: src => {
+        const match = /^\$([^\s$](?:[^$\n]*[^\s$])?)\$(?!\d)/.exec(src);
+        return match ? { type: 'inlineMath', raw: match[0], text: match[1] } : undefined;
+      },
+      renderer: token =>
+        `<span data-type="inlineMath" data-latex="${escapeHTML(token.text)}">${escapeHTML(token.text)}</span>`,
+    },
+  ],
+  renderer: {
+    // Only the first word of the info string names the language
+    code: ({ text, lang }: Tokens.Code) => {
+      const language = lang?.split(/\s/)[0];
+      if (language === 'mermaid') {
+        return `<div data-type="diagram">${escapeHTML(text)}</div>`;
+      }
+      const className = language ? ` class="language-${escapeHTML(language)}"` : '';
+      return `<pre><code${className}>${escapeHTML(text)}</code></pre>`;
+    },
+  },
+});
+
+export function markdownToBlocks(markdown: string): Block[] {
+  return htmlToBlocks(markdownParser.parse(markdown, { async: false }));
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createLocalRepository, createMemoryStore } from './repository';
+import { createWriteQueue, loadEveryNote } from './notes';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('createWriteQueue', () => {
+  it('finishes writes to a note in the order they were made', async () => {
+    const writeNote = createWriteQueue();
+    const stored: string[] = [];
+    await Promise.all([
+      writeNote('a', async () => { await delay(20); stored.push('older'); }),
+      writeNote('a', async () => { stored.push('newer'); }),
+    ]);
+    expect(stored).toEqual(['older', 'newer']);
+  });
+
+  it('runs writes to different notes independently', async () => {
+    const writeNote = createWriteQueue();
+    const stored: string[] = [];
+    await Promise.all([
+      writeNote('a', async () => { await delay(20); stored.push('a'); }),
+      writeNote('b', async () => { stored.push('b'); }),
+    ]);
+    expect(stored).toEqual(['b', 'a']);
+  });
+
+  it('keeps going after a failed write', async () => {
+    const writeNote = createWriteQueue();
+    const failed = writeNote('a', async () => { throw new Error('disk full'); });
+    const next = writeNote('a', async () => 'saved');
+    await expect(failed).rejects.toThrow('disk full');
+    await expect(next).resolves.toBe('saved');
+  });
+});
+
+describe('loadEveryNote', () => {
+  it('skips notes that fail to load', async () => {
+    const repository = createLocalRepository(createMemoryStore());
+    const first = await repository.createNote('First');
+    const second = await repository.createNote('Second');
+    const missing = { ...first, id: 'note_missing' };
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const loaded = await loadEveryNote(repository, [first, missing, second]);
+    expect(loaded.map(note => note.id)).toEqual([first.id, second.id]);
+    expect(logged).toHaveBeenCalledOnce();
+    logged.mockRestore();
+  });
+});
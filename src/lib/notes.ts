@@ -0,0 +1,78 @@
+import { Note, NoteMetadata } from '../types';
+import { NoteRepository } from './repository';
+
+type NoteState = Pick<NoteMetadata, 'trashedAt' | 'archived'>;
+
+export const isTrashed = (note: NoteState) => Boolean(note.trashedAt);
+
+export const isArchived = (note: NoteState) => Boolean(note.archived) && !isTrashed(note);
+
+// Notes that belong in All Notes and search results
+export const isActive = (note: NoteState) => !isTrashed(note) && !note.archived;
+
+// Runs `write` once every earlier write to the same note has finished
+export type WriteQueue = <T>(noteId: string, write: () => Promise<T>) => Promise<T>;
+
+// Loads, patches and saves a note without touching its content timestamp.
+export function updateNote(
+  repository: NoteRepository,
+  writeNote: WriteQueue,
+  noteId: string,
+  patch: Partial<Note>,
+): Promise<Note> {
+  return writeNote(noteId, async () => {
+    const note = await repository.loadNote(noteId);
+    const updatedNote = { ...note, ...patch };
+    await repository.saveNote(updatedNote);
+    return updatedNote;
+  });
+}
+
+export const trashNote = (repository: NoteRepository, writeNote: WriteQueue, noteId: string) =>
+  updateNote(repository, writeNote, noteId, { trashedAt: new Date().toISOString() });
+
+export const restoreNote = (repository: NoteRepository, writeNote: WriteQueue, noteId: string) =>
+  updateNote(repository, writeNote, noteId, { trashedAt: undefined });
+
+export const setArchived = (repository: NoteRepository, writeNote: WriteQueue, noteId: string, archived: boolean) =>
+  updateNote(repository, writeNote, noteId, { archived: archived || undefined });
+
+// Loads each note once, for filling the search index, tasks and links at
+// startup. Notes that fail to load are left out rather than failing the rest.
+export async function loadEveryNote(repository: NoteRepository, notes: NoteMetadata[]): Promise<Note[]> {
+  const loaded: Note[] = [];
+  for (const metadata of notes) {
+    try {
+      loaded.push(await repository.loadNote(metadata.id));
+    } catch (error) {
+      console.error(`Failed to load note ${metadata.id}:`, error);
+    }
+  }
+  return loaded;
+}
+
+export async function emptyTrash(repository: NoteRepository, notes: NoteMetadata[]): Promise<void> {
+  for (const note of notes.filter(isTrashed)) {
+    await repository.deleteNote(note.id);
+  }
+}
+
+// Runs writes to the same note one at a time, in the order they were made,
+// so a slow save can't finish after (and overwrite) a newer one. A failed
+// write doesn't hold up the ones queued behind it. Every load-patch-save of
+// a note goes through the app's one queue.
+export function createWriteQueue(): WriteQueue {
+  const pending = new Map<string, Promise<unknown>>();
+
+  return (noteId, write) => {
+    const result = (pending.get(noteId) ?? Promise.resolve()).then(write);
+    const settled = result.catch(() => undefined);
+    pending.set(noteId, settled);
+    settled.then(() => {
+      if (pending.get(noteId) === settled) {
+        pending.delete(noteId);
+      }
+    });
+    return result;
+  };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { PDFAnnotation, PDFDocument } from '../types';
+import { createLocalRepository, createMemoryStore } from './repository';
+import { KeyValueStore } from './repository/storage';
+import { createAttachmentStore } from './attachments';
+import { createPdfLibrary } from './pdfs';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Slow reads and writes, as on disk, give concurrent writes the chance to
+// interleave
+const createSlowStore = (): KeyValueStore => {
+  const store = createMemoryStore();
+  return {
+    ...store,
+    get: async (name, key) => {
+      await delay(10);
+      return store.get(name, key);
+    },
+    put: async (name, key, value) => {
+      await delay(10);
+      return store.put(name, key, value);
+    },
+  };
+};
+
+const PDF: PDFDocument = {
+  id: 'pdf-1',
+  name: 'Paper',
+  path: 'attachments/paper.pdf',
+  pages: 0,
+  createdAt: '2026-10-19T00:00:00.000Z',
+  updatedAt: '2026-10-19T00:00:00.000Z',
+  annotations: [],
+};
+
+const highlight = (id: string): PDFAnnotation => ({ id, annotation_type: 'highlight', page: 1, rect: [0, 0, 10, 10] });
+
+describe('createPdfLibrary', () => {
+  it('keeps an annotation saved while the page count is set', async () => {
+    const repository = createLocalRepository(createSlowStore());
+    const pdfs = createPdfLibrary(repository, createAttachmentStore(repository));
+    await repository.savePdf(PDF);
+
+    await Promise.all([pdfs.setPageCount(PDF.id, 12), pdfs.saveAnnotation(PDF.id, highlight('a'))]);
+
+    const stored = await repository.loadPdf(PDF.id);
+    expect(stored.pages).toBe(12);
+    expect(stored.annotations).toEqual([highlight('a')]);
+  });
+
+  it('keeps an annotation saved while another is deleted', async () => {
+    const repository = createLocalRepository(createSlowStore());
+    const pdfs = createPdfLibrary(repository, createAttachmentStore(repository));
+    await repository.savePdf({ ...PDF, annotations: [highlight('a')] });
+
+    await Promise.all([pdfs.deleteAnnotation(PDF.id, 'a'), pdfs.saveAnnotation(PDF.id, highlight('b'))]);
+
+    expect((await repository.loadPdf(PDF.id)).annotations).toEqual([highlight('b')]);
+  });
+});
@@ -0,0 +1,66 @@
+import { PDFAnnotation, PDFDocument } from '../types';
+import { NoteRepository } from './repository';
+import { AttachmentStore } from './attachments';
+import { createWriteQueue } from './notes';
+
+// PDFs embedded in notes. The file itself is a vault attachment; the
+// PDFDocument record beside it holds the name, page count and annotations,
+// and is what `pdf` blocks point at through `pdfId`.
+
+export interface PdfLibrary {
+  import(file: File): Promise<PDFDocument>;
+  load(pdfId: string): Promise<PDFDocument>;
+  // A URL the viewer can fetch the file from
+  fileUrl(pdf: PDFDocument): Promise<string>;
+  // Page count is only known once the viewer has parsed the file
+  setPageCount(pdfId: string, pages: number): Promise<PDFDocument>;
+  // Both return the document with its updated annotations
+  saveAnnotation(pdfId: string, annotation: PDFAnnotation): Promise<PDFDocument>;
+  deleteAnnotation(pdfId: string, annotationId: string): Promise<PDFDocument>;
+}
+
+export function createPdfLibrary(repository: NoteRepository, attachments: AttachmentStore): PdfLibrary {
+  // Each write rewrites the whole record, so writes to one document run one
+  // at a time; the page count the viewer sets on open can't drop an
+  // annotation saved meanwhile
+  const writePdf = createWriteQueue();
+
+  const update = (pdfId: string, change: (pdf: PDFDocument) => Partial<PDFDocument>) => writePdf(pdfId, async () => {
+    const pdf = await repository.loadPdf(pdfId);
+    const updated = { ...pdf, ...change(pdf), updatedAt: new Date().toISOString() };
+    await repository.savePdf(updated);
+    return updated;
+  });
+
+  return {
+    import: async (file) => {
+      const path = await attachments.import(file);
+      const timestamp = new Date().toISOString();
+      const pdf: PDFDocument = {
+        id: `pdf_${crypto.randomUUID()}`,
+        name: file.name.replace(/\.pdf$/i, '') || 'Untitled PDF',
+        path,
+        pages: 0,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        annotations: [],
+      };
+      await repository.savePdf(pdf);
+      return pdf;
+    },
+
+    load: (pdfId) => repository.loadPdf(pdfId),
+
+    fileUrl: (pdf) => attachments.resolve(pdf.path),
+
+    setPageCount: (pdfId, pages) => update(pdfId, () => ({ pages })),
+
+    saveAnnotation: (pdfId, annotation) => writePdf(pdfId, async () => {
+      await repository.savePdfAnnotation(pdfId, annotation);
+      return repository.loadPdf(pdfId);
+    }),
+
+    deleteAnnotation: (pdfId, annotationId) =>
+      update(pdfId, pdf => ({ annotations: (pdf.annotations ?? []).filter(a => a.id !== annotationId) })),
+  };
+}
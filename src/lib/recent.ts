@@ -0,0 +1,86 @@
+// Per-device record of which notes were opened or edited, and where each was
+// scrolled to. It drives the Recent view and reopening the last note on
+// launch, so it lives in localStorage rather than in the vault.
+
+export interface NoteAccess {
+  noteId: string;
+  openedAt?: string;
+  editedAt?: string;
+  scrollTop?: number;
+}
+
+export interface AccessTracker {
+  recordOpen(noteId: string): void;
+  recordEdit(noteId: string): void;
+  saveScrollPosition(noteId: string, scrollTop: number): void;
+  forget(noteId: string): void;
+  // Most recently opened or edited first
+  getRecent(): NoteAccess[];
+  get(noteId: string): NoteAccess | undefined;
+  lastOpened(): NoteAccess | undefined;
+}
+
+const STORAGE_KEY = 'flow-notes:recent';
+const MAX_ENTRIES = 50;
+
+export const lastAccessedAt = (access: NoteAccess) =>
+  [access.openedAt, access.editedAt].filter(Boolean).sort().pop() ?? '';
+
+const defaultStorage = (): Storage | undefined => {
+  try {
+    return typeof localStorage === 'undefined' ? undefined : localStorage;
+  } catch {
+    // Access can throw when storage is disabled
+    return undefined;
+  }
+};
+
+export function createAccessTracker(storage = defaultStorage()): AccessTracker {
+  const load = (): NoteAccess[] => {
+    try {
+      return JSON.parse(storage?.getItem(STORAGE_KEY) ?? '[]');
+    } catch {
+      return [];
+    }
+  };
+
+  let entries = load();
+
+  const persist = () => {
+    entries = entries
+      .sort((a, b) => lastAccessedAt(b).localeCompare(lastAccessedAt(a)))
+      .slice(0, MAX_ENTRIES);
+    try {
+      storage?.setItem(STORAGE_KEY, JSON.stringify(entries));
+    } catch (error) {
+      // Losing recents is not worth interrupting the user for
+      console.error('Failed to save recent notes:', error);
+    }
+  };
+
+  const touch = (noteId: string, patch: Partial<NoteAccess>) => {
+    const existing = entries.find(entry => entry.noteId === noteId);
+    entries = [{ ...existing, noteId, ...patch }, ...entries.filter(entry => entry !== existing)];
+    persist();
+  };
+
+  return {
+    recordOpen: (noteId) => touch(noteId, { openedAt: new Date().toISOString() }),
+    recordEdit: (noteId) => touch(noteId, { editedAt: new Date().toISOString() }),
+    saveScrollPosition: (noteId, scrollTop) => {
+      if (entries.some(entry => entry.noteId === noteId)) {
+        touch(noteId, { scrollTop });
+      }
+    },
+    forget: (noteId) => {
+      entries = entries.filter(entry => entry.noteId !== noteId);
+      persist();
+    },
+    getRecent: () => [...entries],
+    get: (noteId) => entries.find(entry => entry.noteId === noteId),
+    lastOpened: () =>
+      entries
+        .filter(entry => entry.openedAt)
+        .sort((a, b) => b.openedAt!.localeCompare(a.openedAt!))[0],
+  };
+}
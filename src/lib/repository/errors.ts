@@ -0,0 +1,31 @@
+// Mirrors `StoreError` in src-tauri/src/store.rs, which serializes as
+// `{ kind, message }`.
+export type RepositoryErrorKind = 'notFound' | 'readFailed' | 'writeFailed';
+
+export class RepositoryError extends Error {
+  readonly kind: RepositoryErrorKind;
+
+  constructor(kind: RepositoryErrorKind, message: string) {
+    super(message);
+    this.name = 'RepositoryError';
+    this.kind = kind;
+  }
+}
+
+export function isNotFound(error: unknown): boolean {
+  return error instanceof RepositoryError && error.kind === 'notFound';
+}
+
+// Normalizes whatever a backend rejected with into a RepositoryError. Unknown
+// shapes (plain strings from older commands, IPC failures) are reported with
+// `fallback`, since the caller knows whether it was reading or writing.
+export function toRepositoryError(error: unknown, fallback: RepositoryErrorKind): RepositoryError {
+  if (error instanceof RepositoryError) {
+    return error;
+  }
+  if (error && typeof error === 'object' && 'kind' in error && 'message' in error) {
+    const { kind, message } = error as { kind: RepositoryErrorKind; message: string };
+    return new RepositoryError(kind, message);
+  }
+  return new RepositoryError(fallback, error instanceof Error ? error.message : String(error));
+}
@@ -0,0 +1,17 @@
+import { isTauri } from '@tauri-apps/api/core';
+import { createLocalRepository } from './local';
+import { createTauriRepository } from './tauri';
+import { NoteRepository } from './types';
+
+export type { NoteRepository } from './types';
+export { RepositoryError, isNotFound } from './errors';
+export type { RepositoryErrorKind } from './errors';
+export { createLocalRepository } from './local';
+export { createTauriRepository } from './tauri';
+export { createMemoryStore, createIndexedDBStore } from './storage';
+
+// Picks the backend for this runtime: Rust IPC inside the Tauri webview,
+// IndexedDB (or memory) everywhere else.
+export function createRepository(): NoteRepository {
+  return isTauri() ? createTauriRepository() : createLocalRepository();
+}
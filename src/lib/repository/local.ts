@@ -0,0 +1,179 @@
+import { Folder, Note, NoteMetadata, NoteSnapshot, PDFAnnotation, PDFDocument } from '../../types';
+import { RepositoryError, toRepositoryError } from './errors';
+import { KeyValueStore, StoreName, createDefaultStore } from './storage';
+import { NoteRepository } from './types';
+
+// Browser-side backend that mirrors the behaviour of the Rust commands, so
+// the app can run under `npm run dev` or in component tests without Tauri.
+export function createLocalRepository(store: KeyValueStore = createDefaultStore()): NoteRepository {
+  const now = () => new Date().toISOString();
+
+  // Storage failures surface as the same typed errors the Tauri backend returns
+  const put = <T>(storeName: StoreName, key: string, value: T) =>
+    store.put(storeName, key, value).catch(error => {
+      throw toRepositoryError(error, 'writeFailed');
+    });
+
+  const remove = (storeName: StoreName, key: string) =>
+    store.delete(storeName, key).catch(error => {
+      throw toRepositoryError(error, 'writeFailed');
+    });
+
+  const toMetadata = (note: Note): NoteMetadata => ({
+    id: note.id,
+    title: note.title,
+    createdAt: note.createdAt,
+    updatedAt: note.updatedAt,
+    tags: note.tags,
+    folderId: note.folderId,
+    trashedAt: note.trashedAt,
+    archived: note.archived,
+    favorite: note.favorite,
+    favoriteOrder: note.favoriteOrder,
+  });
+
+  const snapshotKey = (noteId: string, snapshotId: string) => `${noteId}/${snapshotId}`;
+
+  const listSnapshots = async (noteId: string): Promise<NoteSnapshot[]> => {
+    const snapshots = await store.getAll<NoteSnapshot>('snapshots');
+    return snapshots
+      .filter(snapshot => snapshot.noteId === noteId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  };
+
+  const byUpdatedDesc = (a: { updatedAt: string }, b: { updatedAt: string }) =>
+    b.updatedAt.localeCompare(a.updatedAt);
+
+  const loadNote = async (noteId: string): Promise<Note> => {
+    const note = await store.get<Note>('notes', noteId);
+    if (!note) {
+      throw new RepositoryError('notFound', `Note not found: ${noteId}`);
+    }
+    return note;
+  };
+
+  const listNotes = async (): Promise<NoteMetadata[]> => {
+    const notes = await store.getAll<Note>('notes');
+    return notes.map(toMetadata).sort(byUpdatedDesc);
+  };
+
+  const loadPdf = async (pdfId: string): Promise<PDFDocument> => {
+    const pdf = await store.get<PDFDocument>('pdfs', pdfId);
+    if (!pdf) {
+      throw new RepositoryError('notFound', `PDF not found: ${pdfId}`);
+    }
+    return pdf;
+  };
+
+  const savePdf = (pdf: PDFDocument) => put('pdfs', pdf.id, pdf);
+
+  return {
+    listNotes,
+    loadNote,
+
+    createNote: async (title, folderId) => {
+      // Same duplicate-title handling as the Rust create_note command
+      const existing = await listNotes();
+      let finalTitle = title;
+      let counter = 1;
+      while (existing.some(note => note.title === finalTitle)) {
+        finalTitle = `${title} ${counter}`;
+        counter += 1;
+      }
+
+      const timestamp = now();
+      const note: Note = {
+        id: `note_${crypto.randomUUID()}`,
+        title: finalTitle,
+        blocks: [{
+          id: crypto.randomUUID(),
+          type: 'heading',
+          content: 'Untitled',
+          order: 0,
+        }],
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        folderId,
+      };
+      await put('notes', note.id, note);
+      return note;
+    },
+
+    saveNote: (note) => put('notes', note.id, note),
+
+    deleteNote: async (noteId) => {
+      await remove('notes', noteId);
+      for (const snapshot of await listSnapshots(noteId)) {
+        await remove('snapshots', snapshotKey(noteId, snapshot.id));
+      }
+    },
+
+    listSnapshots,
+
+    saveSnapshot: (snapshot) => put('snapshots', snapshotKey(snapshot.noteId, snapshot.id), snapshot),
+
+    deleteSnapshot: (noteId, snapshotId) => remove('snapshots', snapshotKey(noteId, snapshotId)),
+
+    listFolders: async () => {
+      const folders = await store.getAll<Folder>('folders');
+      return folders.sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    createFolder: async (name, parentId) => {
+      const timestamp = now();
+      const folder: Folder = {
+        id: `folder_${crypto.randomUUID()}`,
+        name,
+        parentId,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      await put('folders', folder.id, folder);
+      return folder;
+    },
+
+    saveFolder: (folder) => put('folders', folder.id, folder),
+
+    deleteFolder: (folderId) => remove('folders', folderId),
+
+    listPdfs: async () => {
+      const pdfs = await store.getAll<PDFDocument>('pdfs');
+      return pdfs.sort(byUpdatedDesc);
+    },
+
+    loadPdf,
+    savePdf,
+
+    deletePdf: (pdfId) => remove('pdfs', pdfId),
+
+    savePdfAnnotation: async (pdfId: string, annotation: PDFAnnotation) => {
+      const pdf = await loadPdf(pdfId);
+      const annotations = pdf.annotations ?? [];
+      const existingIndex = annotations.findIndex(a => a.id === annotation.id);
+      if (existingIndex >= 0) {
+        annotations[existingIndex] = annotation;
+      } else {
+        annotations.push(annotation);
+      }
+      await savePdf({ ...pdf, annotations, updatedAt: now() });
+    },
+
+    saveAttachment: async (fileName, data) => {
+      // Same naming as the Rust save_attachment command
+      const extension = fileName.includes('.')
+        ? fileName.split('.').pop()!.replace(/[^a-z0-9]/gi, '').toLowerCase()
+        : '';
+      const path = `attachments/att_${crypto.randomUUID()}${extension ? `.${extension}` : ''}`;
+      await put('attachments', path, data);
+      return path;
+    },
+
+    loadAttachment: async (path) => {
+      const data = await store.get<ArrayBuffer>('attachments', path);
+      if (!data) {
+        throw new RepositoryError('notFound', `Attachment not found: ${path}`);
+      }
+      return data;
+    },
+  };
+}
@@ -0,0 +1,94 @@
+// Minimal key/value persistence used by the browser repository. Each store
+// name maps to an IndexedDB object store, or to a Map when IndexedDB is not
+// available (tests, SSR, private browsing).
+
+export type StoreName = 'notes' | 'folders' | 'pdfs' | 'snapshots' | 'attachments';
+
+const STORE_NAMES: StoreName[] = ['notes', 'folders', 'pdfs', 'snapshots', 'attachments'];
+
+// Bump whenever STORE_NAMES changes so onupgradeneeded creates the new stores.
+const DB_VERSION = 3;
+
+export interface KeyValueStore {
+  get<T>(store: StoreName, key: string): Promise<T | undefined>;
+  getAll<T>(store: StoreName): Promise<T[]>;
+  put<T>(store: StoreName, key: string, value: T): Promise<void>;
+  delete(store: StoreName, key: string): Promise<void>;
+}
+
+export function createMemoryStore(): KeyValueStore {
+  const stores = new Map<StoreName, Map<string, unknown>>(
+    STORE_NAMES.map(name => [name, new Map()]),
+  );
+  // Values are cloned on the way in and out so callers cannot mutate what is
+  // "on disk", matching IndexedDB's structured clone semantics.
+  const clone = <T>(value: T): T => structuredClone(value);
+
+  return {
+    get: async <T>(store: StoreName, key: string) => {
+      const value = stores.get(store)!.get(key);
+      return value === undefined ? undefined : clone(value as T);
+    },
+    getAll: async <T>(store: StoreName) =>
+      Array.from(stores.get(store)!.values(), value => clone(value as T)),
+    put: async <T>(store: StoreName, key: string, value: T) => {
+      stores.get(store)!.set(key, clone(value));
+    },
+    delete: async (store, key) => {
+      stores.get(store)!.delete(key);
+    },
+  };
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function createIndexedDBStore(dbName = 'flow-notes'): KeyValueStore {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!dbPromise) {
+      const request = indexedDB.open(dbName, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORE_NAMES.forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name);
+          }
+        });
+      };
+      dbPromise = promisify(request);
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <T>(
+    store: StoreName,
+    mode: IDBTransactionMode,
+    run: (objectStore: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> => {
+    const db = await open();
+    return promisify(run(db.transaction(store, mode).objectStore(store)));
+  };
+
+  return {
+    get: <T>(store: StoreName, key: string) =>
+      withStore<T | undefined>(store, 'readonly', s => s.get(key)),
+    getAll: <T>(store: StoreName) =>
+      withStore<T[]>(store, 'readonly', s => s.getAll()),
+    put: async <T>(store: StoreName, key: string, value: T) => {
+      await withStore(store, 'readwrite', s => s.put(value, key));
+    },
+    delete: async (store, key) => {
+      await withStore(store, 'readwrite', s => s.delete(key));
+    },
+  };
+}
+
+export function createDefaultStore(): KeyValueStore {
+  return typeof indexedDB === 'undefined' ? createMemoryStore() : createIndexedDBStore();
+}
@@ -0,0 +1,56 @@
+import { invoke, InvokeArgs, InvokeOptions } from '@tauri-apps/api/core';
+import { Folder, Note, NoteMetadata, NoteSnapshot, PDFAnnotation, PDFDocument } from '../../types';
+import { RepositoryErrorKind, toRepositoryError } from './errors';
+import { NoteRepository } from './types';
+
+const call = <T>(fallback: RepositoryErrorKind) =>
+  async (command: string, args?: InvokeArgs, options?: InvokeOptions): Promise<T> => {
+    try {
+      return await invoke<T>(command, args, options);
+    } catch (error) {
+      throw toRepositoryError(error, fallback);
+    }
+  };
+
+const read = <T>(command: string, args?: InvokeArgs) => call<T>('readFailed')(command, args);
+const write = <T = void>(command: string, args?: InvokeArgs, options?: InvokeOptions) =>
+  call<T>('writeFailed')(command, args, options);
+
+// Header values must be plain ASCII; the vault drops anything else anyway
+const extensionOf = (fileName: string) =>
+  fileName.includes('.') ? fileName.split('.').pop()!.replace(/[^a-z0-9]/gi, '') : '';
+
+// Talks to the Rust commands registered in src-tauri. Argument names are
+// camelCase here; Tauri maps them onto the snake_case command parameters.
+export function createTauriRepository(): NoteRepository {
+  return {
+    listNotes: () => read<NoteMetadata[]>('list_notes'),
+    createNote: (title, folderId) => write<Note>('create_note', { title, folderId }),
+    loadNote: (noteId) => read<Note>('load_note', { noteId }),
+    saveNote: (note) => write('save_note', { note }),
+    deleteNote: (noteId) => write('delete_note', { noteId }),
+
+    listSnapshots: (noteId) => read<NoteSnapshot[]>('list_snapshots', { noteId }),
+    saveSnapshot: (snapshot) => write('save_snapshot', { snapshot }),
+    deleteSnapshot: (noteId, snapshotId) => write('delete_snapshot', { noteId, snapshotId }),
+
+    listFolders: () => read<Folder[]>('list_folders'),
+    createFolder: (name, parentId) => write<Folder>('create_folder', { name, parentId }),
+    saveFolder: (folder) => write('save_folder', { folder }),
+    deleteFolder: (folderId) => write('delete_folder', { folderId }),
+
+    listPdfs: () => read<PDFDocument[]>('list_pdfs'),
+    loadPdf: (pdfId) => read<PDFDocument>('load_pdf', { pdfId }),
+    savePdf: (pdf) => write('save_pdf', { pdf }),
+    deletePdf: (pdfId) => write('delete_pdf', { pdfId }),
+    savePdfAnnotation: (pdfId: string, annotation: PDFAnnotation) =>
+      write('save_pdf_annotation', { pdfId, annotation }),
+
+    // The bytes go over as the raw request body rather than a JSON array
+    saveAttachment: (fileName, data) =>
+      write<string>('save_attachment', new Uint8Array(data), {
+        headers: { 'x-file-extension': extensionOf(fileName) },
+      }),
+    loadAttachment: (path) => read<ArrayBuffer>('load_attachment', { path }),
+  };
+}
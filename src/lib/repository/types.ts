@@ -0,0 +1,36 @@
+import { Folder, Note, NoteMetadata, NoteSnapshot, PDFAnnotation, PDFDocument } from '../../types';
+
+// Single contract for every persisted note, folder and attachment operation.
+// The UI only talks to this interface; the backend behind it is picked once
+// at startup (see createRepository).
+export interface NoteRepository {
+  // Notes
+  listNotes(): Promise<NoteMetadata[]>;
+  createNote(title: string, folderId?: string): Promise<Note>;
+  loadNote(noteId: string): Promise<Note>;
+  saveNote(note: Note): Promise<void>;
+  deleteNote(noteId: string): Promise<void>;
+
+  // Version history, newest first
+  listSnapshots(noteId: string): Promise<NoteSnapshot[]>;
+  saveSnapshot(snapshot: NoteSnapshot): Promise<void>;
+  deleteSnapshot(noteId: string, snapshotId: string): Promise<void>;
+
+  // Folders
+  listFolders(): Promise<Folder[]>;
+  createFolder(name: string, parentId?: string): Promise<Folder>;
+  saveFolder(folder: Folder): Promise<void>;
+  deleteFolder(folderId: string): Promise<void>;
+
+  // PDF attachments
+  listPdfs(): Promise<PDFDocument[]>;
+  loadPdf(pdfId: string): Promise<PDFDocument>;
+  savePdf(pdf: PDFDocument): Promise<void>;
+  deletePdf(pdfId: string): Promise<void>;
+  savePdfAnnotation(pdfId: string, annotation: PDFAnnotation): Promise<void>;
+
+  // Files pasted or dropped into notes. Saving returns the vault-relative
+  // path (e.g. "attachments/att_….png") that blocks store in `filePath`.
+  saveAttachment(fileName: string, data: ArrayBuffer): Promise<string>;
+  loadAttachment(path: string): Promise<ArrayBuffer>;
+}
@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest';
+import { Note } from '../types';
+import { createSearchIndex, parseQuery } from './search';
+
+// A note with one text block per paragraph; block ids are `<id>-<index>`
+const note = (id: string, title: string, paragraphs: string[] = [], fields: Partial<Note> = {}): Note => ({
+  id,
+  title,
+  blocks: paragraphs.map((content, order) => ({ id: `${id}-${order}`, type: 'text', content, order })),
+  createdAt: '2026-10-19T00:00:00.000Z',
+  updatedAt: '2026-10-19T00:00:00.000Z',
+  ...fields,
+});
+
+const indexOf = (...notes: Note[]) => {
+  const index = createSearchIndex();
+  notes.forEach(index.update);
+  return index;
+};
+
+const ids = (results: { noteId: string }[]) => results.map(result => result.noteId);
+
+// The highlighted parts of a result's snippet
+const highlighted = ({ snippet, highlights }: { snippet: string; highlights: [number, number][] }) =>
+  highlights.map(([start, end]) => snippet.slice(start, end));
+
+describe('parseQuery', () => {
+  it('splits words, phrases and prefixes', () => {
+    expect(parseQuery('"Red apple" pie* cru')).toEqual([
+      { terms: ['red', 'apple'], phrase: true, prefix: false },
+      { terms: ['pie'], phrase: false, prefix: true },
+      // Still being typed
+      { terms: ['cru'], phrase: false, prefix: true },
+    ]);
+  });
+
+  it('only treats the last word as a prefix while it is being typed', () => {
+    expect(parseQuery('cru ').map(part => part.prefix)).toEqual([false]);
+  });
+
+  it('reads hyphenated words as a phrase', () => {
+    expect(parseQuery('state-of-the-art ')).toEqual([
+      { terms: ['state', 'of', 'the', 'art'], phrase: true, prefix: false },
+    ]);
+  });
+});
+
+describe('createSearchIndex', () => {
+  it('ranks title matches above body matches', () => {
+    const index = indexOf(
+      note('body', 'Weekly notes', ['Talked about the garden']),
+      note('title', 'Garden plans', ['Seeds to order']),
+      note('other', 'Groceries', ['Milk']),
+    );
+    expect(ids(index.search('garden '))).toEqual(['title', 'body']);
+  });
+
+  it('ranks exact matches above prefix matches', () => {
+    const index = indexOf(
+      note('prefix', 'Untitled', ['Planning the release']),
+      note('exact', 'Untitled', ['A plan for the release']),
+    );
+    expect(ids(index.search('plan'))).toEqual(['exact', 'prefix']);
+  });
+
+  it('ranks notes that mention a word more often higher', () => {
+    const index = indexOf(
+      note('once', 'Untitled', ['Budget review']),
+      note('often', 'Untitled', ['Budget draft', 'Budget numbers', 'Final budget']),
+    );
+    expect(ids(index.search('budget '))).toEqual(['often', 'once']);
+  });
+
+  it('needs every word of the query', () => {
+    const index = indexOf(
+      note('both', 'Trip', ['Train to Lisbon']),
+      note('one', 'Trip', ['Flight to Porto']),
+    );
+    expect(ids(index.search('trip lisbon '))).toEqual(['both']);
+  });
+
+  it('tolerates typos in longer words only', () => {
+    const index = indexOf(
+      note('long', 'Untitled', ['The dinosaur exhibit']),
+      note('medium', 'Untitled', ['A quiet garden']),
+      note('short', 'Untitled', ['My car']),
+    );
+    // Two edits for words of eight letters or more, one from four letters
+    expect(ids(index.search('dinosuor '))).toEqual(['long']);
+    expect(ids(index.search('gardne '))).toEqual([]);
+    expect(ids(index.search('garden '))).toEqual(['medium']);
+    expect(ids(index.search('gardan '))).toEqual(['medium']);
+    expect(ids(index.search('cat '))).toEqual([]);
+  });
+
+  it('ranks exact matches above typo matches', () => {
+    const index = indexOf(
+      note('typo', 'Untitled', ['Kitchens photos']),
+      note('exact', 'Untitled', ['Kitchen photos']),
+    );
+    expect(ids(index.search('kitchen '))).toEqual(['exact', 'typo']);
+  });
+
+  it('ignores case and accents', () => {
+    const index = indexOf(note('cafe', 'Untitled', ['Meet at the Café']));
+    expect(ids(index.search('CAFE '))).toEqual(['cafe']);
+  });
+
+  it('matches phrases only with their words together and in order', () => {
+    const index = indexOf(
+      note('phrase', 'Untitled', ['Bake a red apple pie']),
+      note('apart', 'Untitled', ['The apple is red']),
+    );
+    const [result, ...others] = index.search('"red apple"');
+    expect(others).toEqual([]);
+    expect(result).toMatchObject({ noteId: 'phrase', blockId: 'phrase-0' });
+    expect(highlighted(result)).toEqual(['red apple']);
+  });
+
+  it('leaves out archived and trashed notes', () => {
+    const index = indexOf(
+      note('active', 'Report'),
+      note('archived', 'Report', [], { archived: true }),
+      note('trashed', 'Report', [], { trashedAt: '2026-10-19T00:00:00.000Z' }),
+    );
+    expect(ids(index.search('report '))).toEqual(['active']);
+  });
+
+  it('drops removed notes and re-indexes updated ones', () => {
+    const index = indexOf(note('a', 'Alpha'), note('b', 'Beta'));
+    index.remove('a');
+    index.update(note('b', 'Gamma'));
+    expect(index.search('alpha ')).toEqual([]);
+    expect(index.search('beta ')).toEqual([]);
+    expect(ids(index.search('gamma '))).toEqual(['b']);
+  });
+
+  it('points at the block with the strongest matches', () => {
+    const index = indexOf(note('n', 'Untitled', ['One mention of tea', 'Tea, green tea and more tea']));
+    expect(index.search('tea ')[0].blockId).toBe('n-1');
+  });
+
+  it('leaves the block out when only the title matches', () => {
+    const index = indexOf(note('n', 'Recipes', ['Soup']));
+    expect(index.search('recipes ')[0]).toMatchObject({ blockId: undefined, snippet: 'Soup', highlights: [] });
+  });
+
+  describe('snippets', () => {
+    it('show short blocks whole', () => {
+      const index = indexOf(note('n', 'Untitled', ['Find the needle here']));
+      const [result] = index.search('needle ');
+      expect(result.snippet).toBe('Find the needle here');
+      expect(highlighted(result)).toEqual(['needle']);
+    });
+
+    it('start shortly before the first match, on a word boundary', () => {
+      const filler = Array.from({ length: 30 }, (_, i) => `word${i}`).join(' ');
+      const index = indexOf(note('n', 'Untitled', [`${filler} needle ${filler}`]));
+      const [result] = index.search('needle ');
+      expect(result.snippet.startsWith('…word')).toBe(true);
+      expect(result.snippet.endsWith('…')).toBe(true);
+      expect(result.snippet.length).toBeLessThanOrEqual(160 + 2);
+      // At most a few words of lead-in
+      expect(result.snippet.indexOf('needle')).toBeLessThanOrEqual(1 + 40 * 1.5);
+      expect(highlighted(result)).toEqual(['needle']);
+    });
+
+    it('highlight every match within them, in order', () => {
+      const index = indexOf(note('n', 'Untitled', ['Needle one, needle two']));
+      const [result] = index.search('needle ');
+      expect(highlighted(result)).toEqual(['Needle', 'needle']);
+      expect(result.highlights[0][0]).toBeLessThan(result.highlights[1][0]);
+    });
+
+    it('leave out highlights past their end', () => {
+      const filler = 'x'.repeat(200);
+      const index = indexOf(note('n', 'Untitled', [`needle ${filler} needle`]));
+      const [result] = index.search('needle ');
+      expect(result.snippet.startsWith('needle')).toBe(true);
+      expect(highlighted(result)).toEqual(['needle']);
+    });
+  });
+});
@@ -0,0 +1,314 @@
+import { Block, Note } from '../types';
+import { blockToPlainText } from './blocks';
+import { NoteRepository } from './repository';
+import { isActive } from './notes';
+
+// In-memory full-text index over note titles and block text. It is kept up
+// to date by wrapping the repository (see withSearchIndex), so every save
+// re-indexes just the note that changed.
+
+export interface SearchResult {
+  noteId: string;
+  title: string;
+  // Block holding the best match; undefined when only the title matched
+  blockId?: string;
+  snippet: string;
+  // [start, end) character ranges of `snippet` to highlight
+  highlights: [number, number][];
+  score: number;
+}
+
+export interface SearchIndex {
+  update(note: Note): void;
+  remove(noteId: string): void;
+  search(query: string, limit?: number): SearchResult[];
+}
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+interface Field {
+  // undefined for the title
+  blockId?: string;
+  text: string;
+  tokens: Token[];
+}
+
+interface IndexedNote {
+  id: string;
+  title: string;
+  active: boolean;
+  fields: Field[];
+}
+
+// A quoted phrase, or a single word that may also match by prefix or typo
+interface QueryPart {
+  terms: string[];
+  phrase: boolean;
+  prefix: boolean;
+}
+
+interface Match {
+  field: number;
+  start: number;
+  end: number;
+  score: number;
+}
+
+const TITLE_BOOST = 3;
+const PHRASE_BOOST = 1.5;
+const PREFIX_WEIGHT = 0.7;
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 40;
+
+// Case- and accent-insensitive, so "Cafe" finds "café"
+const normalizeTerm = (word: string) =>
+  word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+
+function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(/[\p{L}\p{N}]+/gu), match => ({
+    term: normalizeTerm(match[0]),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+// Short words must match exactly; longer ones may be off by one or two edits
+const maxTypos = (word: string) => (word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0);
+
+// Levenshtein distance, giving up once it is known to exceed `max`
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Quoted text is a phrase. A trailing `*` asks for a prefix match, and so
+// does the last word while it is still being typed.
+export function parseQuery(query: string): QueryPart[] {
+  const parts: QueryPart[] = [];
+  const matches = Array.from(query.matchAll(/"([^"]*)"?|(\S+)/g));
+  matches.forEach((match, index) => {
+    if (match[1] !== undefined) {
+      const terms = tokenize(match[1]).map(token => token.term);
+      if (terms.length > 0) {
+        parts.push({ terms, phrase: true, prefix: false });
+      }
+      return;
+    }
+    const word = match[2];
+    const terms = tokenize(word).map(token => token.term);
+    if (terms.length === 0) {
+      return;
+    }
+    const isLast = index === matches.length - 1 && !/\s$/.test(query);
+    // "foo-bar" is really the phrase "foo bar"
+    parts.push({ terms, phrase: terms.length > 1, prefix: word.endsWith('*') || isLast });
+  });
+  return parts;
+}
+
+const flattenBlocks = (blocks: Block[]): Block[] =>
+  blocks.flatMap(block => [block, ...flattenBlocks(block.children ?? [])]);
+
+function indexNote(note: Note): IndexedNote {
+  const fields: Field[] = [{ text: note.title, tokens: tokenize(note.title) }];
+  for (const block of flattenBlocks(note.blocks)) {
+    const text = blockToPlainText(block);
+    if (text.trim()) {
+      fields.push({ blockId: block.id, text, tokens: tokenize(text) });
+    }
+  }
+  return { id: note.id, title: note.title, active: isActive(note), fields };
+}
+
+function buildSnippet(field: Field, matches: Match[]): Pick<SearchResult, 'snippet' | 'highlights'> {
+  const first = matches.length > 0 ? Math.min(...matches.map(m => m.start)) : 0;
+  let start = Math.max(0, first - SNIPPET_LEAD);
+  // Start on a word boundary
+  if (start > 0) {
+    const space = field.text.lastIndexOf(' ', start);
+    start = space >= 0 && first - space <= SNIPPET_LEAD * 1.5 ? space + 1 : start;
+  }
+  const end = Math.min(field.text.length, start + SNIPPET_LENGTH);
+  const lead = start > 0 ? '…' : '';
+  const snippet = `${lead}${field.text.slice(start, end)}${end < field.text.length ? '…' : ''}`;
+  const highlights = matches
+    .filter(m => m.start >= start && m.end <= end)
+    .sort((a, b) => a.start - b.start)
+    .map(m => [m.start - start + lead.length, m.end - start + lead.length] as [number, number]);
+  return { snippet, highlights };
+}
+
+export function createSearchIndex(): SearchIndex {
+  const notes = new Map<string, IndexedNote>();
+  // term -> ids of the notes containing it
+  const postings = new Map<string, Set<string>>();
+
+  const remove = (noteId: string) => {
+    const existing = notes.get(noteId);
+    if (!existing) {
+      return;
+    }
+    for (const field of existing.fields) {
+      for (const { term } of field.tokens) {
+        const ids = postings.get(term);
+        ids?.delete(noteId);
+        if (ids?.size === 0) {
+          postings.delete(term);
+        }
+      }
+    }
+    notes.delete(noteId);
+  };
+
+  const update = (note: Note) => {
+    remove(note.id);
+    const indexed = indexNote(note);
+    notes.set(note.id, indexed);
+    for (const field of indexed.fields) {
+      for (const { term } of field.tokens) {
+        if (!postings.has(term)) {
+          postings.set(term, new Set());
+        }
+        postings.get(term)!.add(note.id);
+      }
+    }
+  };
+
+  const idf = (term: string) => Math.log(1 + notes.size / (postings.get(term)?.size ?? 1));
+
+  // Index terms a single query word stands for, with how much each counts
+  const expand = (part: QueryPart): Map<string, number> => {
+    const [word] = part.terms;
+    const weights = new Map<string, number>();
+    const typos = maxTypos(word);
+    for (const term of postings.keys()) {
+      if (term === word) {
+        weights.set(term, 1);
+      } else if (part.prefix && term.startsWith(word)) {
+        weights.set(term, PREFIX_WEIGHT);
+      } else if (typos > 0) {
+        const distance = editDistance(word, term, typos);
+        if (distance <= typos) {
+          weights.set(term, 0.5 / distance);
+        }
+      }
+    }
+    return weights;
+  };
+
+  const matchPart = (note: IndexedNote, part: QueryPart, expansion?: Map<string, number>): Match[] => {
+    const matches: Match[] = [];
+    note.fields.forEach((field, index) => {
+      const boost = field.blockId ? 1 : TITLE_BOOST;
+      const { tokens } = field;
+      if (!part.phrase) {
+        for (const token of tokens) {
+          const weight = expansion!.get(token.term);
+          if (weight !== undefined) {
+            matches.push({ field: index, start: token.start, end: token.end, score: weight * idf(token.term) * boost });
+          }
+        }
+        return;
+      }
+      for (let i = 0; i + part.terms.length <= tokens.length; i++) {
+        if (part.terms.every((term, offset) => tokens[i + offset].term === term)) {
+          const score = part.terms.reduce((sum, term) => sum + idf(term), 0) * PHRASE_BOOST * boost;
+          matches.push({ field: index, start: tokens[i].start, end: tokens[i + part.terms.length - 1].end, score });
+        }
+      }
+    });
+    return matches;
+  };
+
+  const search = (query: string, limit = 50): SearchResult[] => {
+    const parts = parseQuery(query);
+    if (parts.length === 0) {
+      return [];
+    }
+    const expansions = parts.map(part => (part.phrase ? undefined : expand(part)));
+
+    // Only notes holding something for the first part can match them all
+    const candidates = new Set<string>();
+    const firstTerms = expansions[0] ? Array.from(expansions[0].keys()) : [parts[0].terms[0]];
+    firstTerms.forEach(term => postings.get(term)?.forEach(id => candidates.add(id)));
+
+    const results: SearchResult[] = [];
+    for (const id of candidates) {
+      const note = notes.get(id)!;
+      if (!note.active) {
+        continue;
+      }
+      const partMatches = parts.map((part, index) => matchPart(note, part, expansions[index]));
+      if (partMatches.some(matches => matches.length === 0)) {
+        continue;
+      }
+      const matches = partMatches.flat();
+      // Repeats of a word add less and less
+      const score = partMatches.reduce((sum, list) => {
+        const best = Math.max(...list.map(m => m.score));
+        return sum + best * (1 + Math.log(list.length));
+      }, 0);
+
+      // Snippet from the block with the strongest matches, else the first block
+      const fieldScores = new Map<number, number>();
+      matches
+        .filter(m => note.fields[m.field].blockId)
+        .forEach(m => fieldScores.set(m.field, (fieldScores.get(m.field) ?? 0) + m.score));
+      const bestField = Array.from(fieldScores).sort((a, b) => b[1] - a[1])[0]?.[0];
+      const field = note.fields[bestField ?? 1] ?? note.fields[0];
+      results.push({
+        noteId: note.id,
+        title: note.title,
+        blockId: bestField !== undefined ? field.blockId : undefined,
+        score,
+        ...buildSnippet(field, bestField !== undefined ? matches.filter(m => m.field === bestField) : []),
+      });
+    }
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  };
+
+  return { update, remove, search };
+}
+
+// Keeps `index` in step with every note written through the repository.
+export function withSearchIndex(repository: NoteRepository, index: SearchIndex): NoteRepository {
+  return {
+    ...repository,
+    createNote: async (title, folderId) => {
+      const note = await repository.createNote(title, folderId);
+      index.update(note);
+      return note;
+    },
+    saveNote: async (note) => {
+      await repository.saveNote(note);
+      index.update(note);
+    },
+    deleteNote: async (noteId) => {
+      await repository.deleteNote(noteId);
+      index.remove(noteId);
+    },
+  };
+}
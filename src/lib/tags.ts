@@ -0,0 +1,119 @@
+import { Block, Note, NoteMetadata } from '../types';
+import { blockToPlainText, isSourceBlock } from './blocks';
+import { NoteRepository } from './repository';
+import { WriteQueue, isActive } from './notes';
+
+// A tag starts with a letter and runs until whitespace or punctuation other
+// than `_`, `-` and `/` (for nested tags like #project/flow).
+const TAG_BODY = '\\p{L}[\\p{L}\\p{N}_\\-/]*';
+export const INLINE_TAG = new RegExp(`(^|\\s)#(${TAG_BODY})`, 'gu');
+
+export function normalizeTag(raw: string): string {
+  return raw.trim().replace(/^#+/, '').replace(/\s+/g, '-').toLowerCase();
+}
+
+const flattenBlocks = (blocks: Block[]): Block[] =>
+  blocks.flatMap(block => [block, ...flattenBlocks(block.children ?? [])]);
+
+// `#tag` words typed in block text. Source blocks (code, math, diagrams) are
+// skipped so `#include` and friends do not turn into tags.
+export function extractInlineTags(blocks: Block[]): string[] {
+  const tags = new Set<string>();
+  for (const block of flattenBlocks(blocks)) {
+    if (isSourceBlock(block)) {
+      continue;
+    }
+    for (const match of blockToPlainText(block).matchAll(INLINE_TAG)) {
+      tags.add(normalizeTag(match[2]));
+    }
+  }
+  return Array.from(tags);
+}
+
+// Inline tags live in `note.tags` next to the ones added in the tag editor,
+// so the sidebar can see them from metadata alone. Tags whose text was
+// removed since `previousBlocks` are dropped; the rest are left alone.
+export function syncInlineTags(note: Note, previousBlocks: Block[]): Note {
+  const removed = new Set(extractInlineTags(previousBlocks));
+  const inline = extractInlineTags(note.blocks);
+  inline.forEach(tag => removed.delete(tag));
+  const tags = Array.from(new Set([...(note.tags ?? []).filter(tag => !removed.has(tag)), ...inline]));
+  return { ...note, tags: tags.length > 0 ? tags : undefined };
+}
+
+export interface TagSummary {
+  name: string;
+  notes: NoteMetadata[];
+}
+
+// Every tag on an active note with the notes carrying it, by name.
+export function getTagSummaries(notes: NoteMetadata[]): TagSummary[] {
+  const byTag = new Map<string, NoteMetadata[]>();
+  for (const note of notes.filter(isActive)) {
+    for (const tag of note.tags ?? []) {
+      byTag.set(tag, [...(byTag.get(tag) ?? []), note]);
+    }
+  }
+  return Array.from(byTag, ([name, tagged]) => ({ name, notes: tagged }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Rewrites `#from` in block HTML. Tags are matched at the start of a text run
+// (after whitespace, a tag boundary or an entity such as &nbsp;).
+const replaceInlineTag = (blocks: Block[], from: string, to: string | null): Block[] => {
+  const escaped = from.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`(^|[\\s>;])#(${escaped})(?![\\p{L}\\p{N}_\\-/])`, 'giu');
+  // A deleted tag keeps its word, just without the `#`
+  const replace = (html: string) =>
+    html.replace(pattern, (_, prefix: string, word: string) => `${prefix}${to === null ? word : `#${to}`}`);
+  return blocks.map(block => ({
+    ...block,
+    content: isSourceBlock(block) ? block.content : replace(block.content),
+    table: block.table && { ...block.table, rows: block.table.rows.map(row => row.map(replace)) },
+    children: block.children && replaceInlineTag(block.children, from, to),
+  }));
+};
+
+// Renames a tag on every note. Renaming onto an existing tag merges the two.
+export async function renameTag(
+  repository: NoteRepository,
+  writeNote: WriteQueue,
+  notes: NoteMetadata[],
+  from: string,
+  to: string,
+): Promise<void> {
+  const target = normalizeTag(to);
+  if (!target || target === from) {
+    return;
+  }
+  for (const metadata of notes.filter(note => note.tags?.includes(from))) {
+    await writeNote(metadata.id, async () => {
+      const note = await repository.loadNote(metadata.id);
+      await repository.saveNote({
+        ...note,
+        tags: Array.from(new Set((note.tags ?? []).map(tag => (tag === from ? target : tag)))),
+        blocks: replaceInlineTag(note.blocks, from, target),
+      });
+    });
+  }
+}
+
+// Removes a tag from every note, including its inline `#tag` mentions.
+export async function deleteTag(
+  repository: NoteRepository,
+  writeNote: WriteQueue,
+  notes: NoteMetadata[],
+  tag: string,
+): Promise<void> {
+  for (const metadata of notes.filter(note => note.tags?.includes(tag))) {
+    await writeNote(metadata.id, async () => {
+      const note = await repository.loadNote(metadata.id);
+      const tags = (note.tags ?? []).filter(t => t !== tag);
+      await repository.saveNote({
+        ...note,
+        tags: tags.length > 0 ? tags : undefined,
+        blocks: replaceInlineTag(note.blocks, tag, null),
+      });
+    });
+  }
+}
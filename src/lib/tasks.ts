@@ -0,0 +1,108 @@
+import { Block, Note, TaskPriority } from '../types';
+import { NoteRepository } from './repository';
+
+// An open todo block and the note it lives in
+export interface TaskEntry {
+  noteId: string;
+  noteTitle: string;
+  block: Block;
+}
+
+export type TaskGrouping = 'note' | 'dueDate';
+
+export interface TaskGroup {
+  key: string;
+  label: string;
+  tasks: TaskEntry[];
+}
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { high: 0, medium: 1, low: 2 };
+
+const flattenBlocks = (blocks: Block[]): Block[] =>
+  blocks.flatMap(block => [block, ...flattenBlocks(block.children ?? [])]);
+
+export const collectTasks = (note: Note): TaskEntry[] =>
+  flattenBlocks(note.blocks)
+    .filter(block => block.type === 'todo' && !block.checked)
+    .map(block => ({ noteId: note.id, noteTitle: note.title, block }));
+
+// Swaps in a note's current tasks after it was saved
+export const replaceNoteTasks = (tasks: TaskEntry[], note: Note): TaskEntry[] =>
+  [...tasks.filter(task => task.noteId !== note.id), ...collectTasks(note)];
+
+// Adds the tasks of notes loaded at startup: every note, archived and
+// trashed ones included so they are there once a note is restored (the Tasks
+// view shows active notes' only). Notes saved while the load ran already have
+// their current tasks and are passed in `saved`.
+export function mergeLoadedTasks(tasks: TaskEntry[], notes: Note[], saved: Set<string>): TaskEntry[] {
+  const loaded = notes.filter(note => !saved.has(note.id));
+  const loadedIds = new Set(loaded.map(note => note.id));
+  return [...tasks.filter(task => !loadedIds.has(task.noteId)), ...loaded.flatMap(collectTasks)];
+}
+
+const mapBlock = (blocks: Block[], blockId: string, patch: Partial<Block>): Block[] =>
+  blocks.map(block => (block.id === blockId
+    ? { ...block, ...patch }
+    : { ...block, children: block.children && mapBlock(block.children, blockId, patch) }));
+
+// Ticks (or unticks) a todo in its source note.
+export async function setTaskChecked(
+  repository: NoteRepository,
+  noteId: string,
+  blockId: string,
+  checked: boolean,
+): Promise<Note> {
+  const note = await repository.loadNote(noteId);
+  const updatedNote = {
+    ...note,
+    blocks: mapBlock(note.blocks, blockId, { checked }),
+    updatedAt: new Date().toISOString(),
+  };
+  await repository.saveNote(updatedNote);
+  return updatedNote;
+}
+
+// Local calendar date as YYYY-MM-DD, the format due dates are stored in
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Earliest due first, then by priority; undated and unprioritized go last
+const priorityRank = (task: TaskEntry) => (task.block.priority ? PRIORITY_RANK[task.block.priority] : 3);
+const byUrgency = (a: TaskEntry, b: TaskEntry) =>
+  (a.block.dueDate ?? '9999-12-31').localeCompare(b.block.dueDate ?? '9999-12-31') ||
+  priorityRank(a) - priorityRank(b);
+
+export function groupTasks(tasks: TaskEntry[], grouping: TaskGrouping, today = new Date()): TaskGroup[] {
+  const groups = new Map<string, TaskGroup>();
+  const add = (key: string, label: string, task: TaskEntry) => {
+    if (!groups.has(key)) {
+      groups.set(key, { key, label, tasks: [] });
+    }
+    groups.get(key)!.tasks.push(task);
+  };
+
+  if (grouping === 'note') {
+    tasks.forEach(task => add(task.noteId, task.noteTitle || 'Untitled', task));
+    return Array.from(groups.values())
+      .sort((a, b) => a.label.localeCompare(b.label))
+      .map(group => ({ ...group, tasks: group.tasks.sort(byUrgency) }));
+  }
+
+  const todayKey = toDateKey(today);
+  const weekEnd = new Date(today);
+  weekEnd.setDate(weekEnd.getDate() + 7);
+  const weekKey = toDateKey(weekEnd);
+  // Buckets in display order
+  const buckets: [string, string, (due?: string) => boolean][] = [
+    ['overdue', 'Overdue', due => Boolean(due && due < todayKey)],
+    ['today', 'Today', due => due === todayKey],
+    ['week', 'Next 7 days', due => Boolean(due && due > todayKey && due <= weekKey)],
+    ['later', 'Later', due => Boolean(due && due > weekKey)],
+    ['none', 'No due date', due => !due],
+  ];
+  [...tasks].sort(byUrgency).forEach(task => {
+    const [key, label] = buckets.find(([, , matches]) => matches(task.block.dueDate))!;
+    add(key, label, task);
+  });
+  return buckets.map(([key]) => groups.get(key)).filter((group): group is TaskGroup => Boolean(group));
+}
@@ -1,9 +1,14 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
 import App from "./App";
+import { createRepository } from "./lib/repository";
+import { createSearchIndex, withSearchIndex } from "./lib/search";
+
+const searchIndex = createSearchIndex();
+const repository = withSearchIndex(createRepository(), searchIndex);
 
 ReactDOM.createRoot(document.getElementById("root") as HTMLElement).render(
   <React.StrictMode>
-    <App />
+    <App repository={repository} searchIndex={searchIndex} />
   </React.StrictMode>,
 );
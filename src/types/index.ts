@@ -6,8 +6,46 @@ export interface Block {
   filePath?: string;
   children?: Block[];
   order: number;
+  // Heading level (1-6) for `heading` blocks
+  level?: number;
+  // Bullet vs numbered for `list` blocks
+  listStyle?: 'bullet' | 'ordered';
+  // Syntax language for `code` blocks
+  language?: string;
+  // Alignment of text, heading, list and image blocks; unset means the default
+  align?: BlockAlignment;
+  // Display width in pixels and caption of `image` blocks; no width means
+  // the image's natural size, capped to the page
+  width?: number;
+  caption?: string;
+  // Optional scheduling for `todo` blocks; dueDate is a local YYYY-MM-DD date
+  dueDate?: string;
+  priority?: TaskPriority;
+  // The vault PDFDocument behind a `pdf` block, which holds its annotations;
+  // `filePath` is the document's attachment path
+  pdfId?: string;
+  // Whether a `toggle` block hides its children
+  collapsed?: boolean;
+  // Emoji and background color of `callout` blocks; the color is a palette
+  // name such as "blue" (see lib/colors)
+  icon?: string;
+  color?: string;
+  // Cells of a `table` block; `content` is unused
+  table?: BlockTable;
+}
+
+export interface BlockTable {
+  // Inline HTML of each cell, row by row; every row has the same length
+  rows: string[][];
+  // Whether the first row / first column are header cells
+  headerRow?: boolean;
+  headerColumn?: boolean;
 }
 
+export type BlockAlignment = 'left' | 'center' | 'right' | 'justify';
+
+export type TaskPriority = 'low' | 'medium' | 'high';
+
 export type BlockType = 
   | 'text'
   | 'heading'
@@ -16,7 +54,13 @@ export type BlockType =
   | 'divider'
   | 'image'
   | 'pdf'
-  | 'code';
+  | 'code'
+  | 'math'
+  | 'diagram'
+  | 'toggle'
+  | 'table'
+  | 'quote'
+  | 'callout';
 
 export interface Note {
   id: string;
@@ -26,6 +70,13 @@ export interface Note {
   updatedAt: string;
   tags?: string[];
   folderId?: string;
+  // Set when the note is moved to the Trash
+  trashedAt?: string;
+  // Archived notes are hidden from All Notes and search
+  archived?: boolean;
+  // Favorites are pinned to the top of All Notes, in `favoriteOrder` order
+  favorite?: boolean;
+  favoriteOrder?: number;
 }
 
 export interface NoteMetadata {
@@ -35,6 +86,22 @@ export interface NoteMetadata {
   updatedAt: string;
   tags?: string[];
   folderId?: string;
+  trashedAt?: string;
+  archived?: boolean;
+  favorite?: boolean;
+  favoriteOrder?: number;
+}
+
+// File formats a note can be exported to (see lib/markdown and lib/html)
+export type ExportFormat = 'markdown' | 'html';
+
+// Point-in-time copy of a note's title and blocks, used for version history.
+export interface NoteSnapshot {
+  id: string;
+  noteId: string;
+  title: string;
+  blocks: Block[];
+  createdAt: string;
 }
 
 export interface Folder {
@@ -43,6 +110,8 @@ export interface Folder {
   parentId?: string;
   createdAt: string;
   updatedAt: string;
+  favorite?: boolean;
+  favoriteOrder?: number;
   children?: (Folder | NoteMetadata)[];
 }
 